@@ -1,6 +1,10 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  experimental: {
+    // Runs src/instrumentation.ts once per server process
+    instrumentationHook: true,
+  },
   webpack: config => {
     config.resolve.fallback = {
       fs: false,
@@ -1,55 +1,74 @@
 import React, { useState, useEffect } from 'react';
 import { formatEther } from 'viem';
+import { type BondSource, type TopUpConfig } from '@/utils/shmonadBonds';
+import { type TopUpSettings } from '@/hooks/useTransactions';
 
 interface BondMonFormProps {
   bondedShmon: string;
-  onBond: (amount: string) => Promise<any>;
+  onBond: (amount: string, source: BondSource) => Promise<any>;
   loading: boolean;
   txStatus?: string;
+  // MON held by the smart account in wei, which can bond without the EOA
+  smartAccountBalance?: string;
+  // Current automatic top-up of the bond, null when none was found
+  topUpConfig?: TopUpConfig | null;
+  onConfigureTopUp?: (settings: TopUpSettings) => Promise<unknown>;
 }
 
-export default function BondMonForm({ bondedShmon, onBond, loading }: BondMonFormProps) {
+export default function BondMonForm({
+  bondedShmon,
+  onBond,
+  loading,
+  txStatus,
+  smartAccountBalance,
+  topUpConfig,
+  onConfigureTopUp,
+}: BondMonFormProps) {
   const [copied, setCopied] = useState(false);
   const [bondAmount, setBondAmount] = useState('2');
+  const [bondSource, setBondSource] = useState<BondSource>('eoa');
+  const [topUpSettings, setTopUpSettings] = useState<TopUpSettings>({
+    minBonded: '1',
+    maxTopUpPerPeriod: '1',
+    topUpPeriodDuration: '100000',
+  });
   const [bondTxStatus, setBondTxStatus] = useState('');
   const [bondTxHash, setBondTxHash] = useState('');
   const isBonded = bondedShmon !== '0';
+  const status = bondTxStatus || txStatus || '';
 
   // Check if the status indicates an error or user rejection
   const isError =
-    bondTxStatus.toLowerCase().includes('error') ||
-    bondTxStatus.toLowerCase().includes('failed') ||
-    bondTxStatus.toLowerCase().includes('invalid');
+    status.toLowerCase().includes('error') ||
+    status.toLowerCase().includes('failed') ||
+    status.toLowerCase().includes('invalid');
 
   // Specifically check for user rejection
   const isUserRejection =
-    bondTxStatus.toLowerCase().includes('user rejected') ||
-    bondTxStatus.toLowerCase().includes('user denied') ||
-    bondTxStatus.toLowerCase().includes('user cancelled');
+    status.toLowerCase().includes('user rejected') ||
+    status.toLowerCase().includes('user denied') ||
+    status.toLowerCase().includes('user cancelled');
 
   const copyErrorToClipboard = () => {
-    if (bondTxStatus) {
-      navigator.clipboard.writeText(bondTxStatus);
+    if (status) {
+      navigator.clipboard.writeText(status);
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     }
   };
 
   useEffect(() => {
-    if (bondTxStatus) {
-      const match = bondTxStatus.match(/Transaction hash: ([a-f0-9x]+)/i);
+    if (status) {
+      const match = status.match(/Transaction hash: ([a-f0-9x]+)/i);
       if (match && match[1]) {
         setBondTxHash(match[1]);
       }
     }
-  }, [bondTxStatus]);
+  }, [status]);
 
   const errorCodeRegex = /(AA\d+|[-\d]+)/g;
-  const highlightedErrorStatus = bondTxStatus
-    ? bondTxStatus.replace(
-        errorCodeRegex,
-        '<span class="font-mono bg-red-100 px-1 rounded">$1</span>'
-      )
+  const highlightedErrorStatus = status
+    ? status.replace(errorCodeRegex, '<span class="font-mono bg-red-100 px-1 rounded">$1</span>')
     : '';
 
   // Helper function to handle transaction errors
@@ -76,14 +95,20 @@ export default function BondMonForm({ bondedShmon, onBond, loading }: BondMonFor
     }
   };
 
+  // A null result means the bond failed - clear the local status so the hook's status explains why
+  const showBondResult = (result: any) => {
+    if (result && result.transactionHash) {
+      setBondTxStatus(`Transaction confirmed! Transaction hash: ${result.transactionHash}`);
+    } else if (!result) {
+      setBondTxStatus('');
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setBondTxStatus('Preparing to bond MON to shMON...');
     try {
-      const result = await onBond(bondAmount);
-      if (result && result.transactionHash) {
-        setBondTxStatus(`Transaction confirmed! Transaction hash: ${result.transactionHash}`);
-      }
+      showBondResult(await onBond(bondAmount, bondSource));
     } catch (error) {
       handleTransactionError(error);
     }
@@ -93,15 +118,56 @@ export default function BondMonForm({ bondedShmon, onBond, loading }: BondMonFor
     e.preventDefault();
     setBondTxStatus('Preparing to bond more MON to shMON...');
     try {
-      const result = await onBond(bondAmount);
-      if (result && result.transactionHash) {
-        setBondTxStatus(`Transaction confirmed! Transaction hash: ${result.transactionHash}`);
-      }
+      showBondResult(await onBond(bondAmount, bondSource));
     } catch (error) {
       handleTransactionError(error);
     }
   };
 
+  const handleConfigureTopUp = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!onConfigureTopUp) return;
+    console.log('🔁 Configuring bond top-up:', topUpSettings);
+    await onConfigureTopUp(topUpSettings);
+  };
+
+  const topUpFields: { key: keyof TopUpSettings; label: string }[] = [
+    { key: 'minBonded', label: 'Keep at least (shMON)' },
+    { key: 'maxTopUpPerPeriod', label: 'Top up at most (shMON per period)' },
+    { key: 'topUpPeriodDuration', label: 'Period (blocks)' },
+  ];
+
+  const sourceSelector = (
+    <div className="mt-3 space-y-1">
+      <span className="text-sm font-medium text-gray-700">Pay With</span>
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="radio"
+          name="bondSource"
+          checked={bondSource === 'eoa'}
+          onChange={() => setBondSource('eoa')}
+          disabled={loading}
+        />
+        Embedded wallet (EOA) MON
+      </label>
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="radio"
+          name="bondSource"
+          checked={bondSource === 'smart-account'}
+          onChange={() => setBondSource('smart-account')}
+          disabled={loading}
+        />
+        Smart account MON (sponsored UserOperation)
+        {smartAccountBalance !== undefined && (
+          <span className="text-gray-500">
+            - balance {formatEther(BigInt(smartAccountBalance))} MON
+          </span>
+        )}
+      </label>
+    </div>
+  );
+
   return (
     <div className="border p-4 rounded-lg bg-gradient-to-r from-orange-50 to-yellow-50">
       <div className="flex justify-between items-center mb-4">
@@ -145,6 +211,7 @@ export default function BondMonForm({ bondedShmon, onBond, loading }: BondMonFor
             <p className="mt-2 text-sm text-gray-600">
               You can now use self-sponsored transactions with your bonded shMON.
             </p>
+            {sourceSelector}
             <button
               onClick={handleBondMore}
               className="mt-3 px-4 py-2 bg-orange-500 text-white rounded hover:bg-orange-600 disabled:bg-gray-400 disabled:cursor-not-allowed text-sm"
@@ -152,6 +219,52 @@ export default function BondMonForm({ bondedShmon, onBond, loading }: BondMonFor
             >
               Bond More MON
             </button>
+
+            {onConfigureTopUp && (
+              <form onSubmit={handleConfigureTopUp} className="mt-4 border-t pt-3">
+                <h3 className="font-medium text-gray-800">Keep my bond topped up</h3>
+                <p className="text-xs text-gray-500 mb-2">
+                  When the bonded balance falls below the minimum, shMONAD bonds more of the smart
+                  account&apos;s unbonded shMON, up to the limit per period. A minimum of 0 turns it
+                  off.
+                </p>
+                {topUpConfig ? (
+                  <p className="text-sm text-gray-700 mb-2">
+                    Current: keep {formatEther(topUpConfig.minBonded)} shMON, top up at most{' '}
+                    {formatEther(topUpConfig.maxTopUpPerPeriod)} shMON every{' '}
+                    {topUpConfig.topUpPeriodDuration} blocks (set at block{' '}
+                    {topUpConfig.blockNumber.toString()})
+                  </p>
+                ) : (
+                  <p className="text-sm text-gray-700 mb-2">
+                    No recent top-up configuration found.
+                  </p>
+                )}
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                  {topUpFields.map(field => (
+                    <label key={field.key} className="text-xs text-gray-600">
+                      {field.label}
+                      <input
+                        type="text"
+                        value={topUpSettings[field.key]}
+                        onChange={e =>
+                          setTopUpSettings({ ...topUpSettings, [field.key]: e.target.value })
+                        }
+                        className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-orange-500 focus:border-orange-500"
+                        disabled={loading}
+                      />
+                    </label>
+                  ))}
+                </div>
+                <button
+                  type="submit"
+                  className="mt-3 px-4 py-2 bg-orange-500 text-white rounded hover:bg-orange-600 disabled:bg-gray-400 disabled:cursor-not-allowed text-sm"
+                  disabled={loading}
+                >
+                  Save Top-Up Settings
+                </button>
+              </form>
+            )}
           </div>
         ) : (
           <div>
@@ -182,6 +295,7 @@ export default function BondMonForm({ bondedShmon, onBond, loading }: BondMonFor
                   The minimum recommended amount is 1 MON
                 </p>
               </div>
+              {sourceSelector}
               <button
                 type="submit"
                 className="mt-4 w-full px-4 py-2 bg-orange-500 text-white rounded hover:bg-orange-600 disabled:bg-gray-400 disabled:cursor-not-allowed"
@@ -194,7 +308,7 @@ export default function BondMonForm({ bondedShmon, onBond, loading }: BondMonFor
         )}
       </div>
 
-      {bondTxStatus && (
+      {status && (
         <div
           className={`mt-4 ${isUserRejection ? 'text-amber-600' : isError ? 'text-red-600' : 'text-green-600'} bg-white p-3 rounded-lg shadow-sm`}
         >
@@ -252,7 +366,7 @@ export default function BondMonForm({ bondedShmon, onBond, loading }: BondMonFor
                 <li>Check if the network is congested</li>
                 <li>If issues persist, contact support</li>
               </ul>
-              {bondTxStatus.includes('AA24') && (
+              {status.includes('AA24') && (
                 <p className="text-xs mt-2 text-gray-600">
                   Error code AA24 indicates a signature validation problem in ERC-4337.
                 </p>
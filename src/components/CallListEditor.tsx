@@ -0,0 +1,119 @@
+import React from 'react';
+import { EMPTY_CALL_INPUT, type CallInput } from '@/utils/calls';
+
+interface CallListEditorProps {
+  calls: CallInput[];
+  onChange: (calls: CallInput[]) => void;
+  disabled?: boolean;
+}
+
+const inputClassName =
+  'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500';
+
+export default function CallListEditor({ calls, onChange, disabled = false }: CallListEditorProps) {
+  const updateCall = (index: number, field: keyof CallInput, value: string) => {
+    onChange(calls.map((call, i) => (i === index ? { ...call, [field]: value } : call)));
+  };
+
+  const addCall = () => {
+    onChange([...calls, { ...EMPTY_CALL_INPUT }]);
+  };
+
+  const removeCall = (index: number) => {
+    onChange(calls.filter((_, i) => i !== index));
+  };
+
+  // Swap a call with its neighbour - calls execute in list order
+  const moveCall = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= calls.length) return;
+
+    const reordered = [...calls];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+  };
+
+  return (
+    <div className="space-y-3">
+      {calls.map((call, index) => (
+        <div key={index} className="p-3 border border-gray-200 rounded-md bg-gray-50">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-sm font-semibold text-gray-700">Call {index + 1}</span>
+            <div className="flex gap-1">
+              <button
+                type="button"
+                onClick={() => moveCall(index, -1)}
+                disabled={disabled || index === 0}
+                className="text-xs px-2 py-1 bg-gray-200 hover:bg-gray-300 rounded disabled:opacity-50"
+                title="Move up"
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                onClick={() => moveCall(index, 1)}
+                disabled={disabled || index === calls.length - 1}
+                className="text-xs px-2 py-1 bg-gray-200 hover:bg-gray-300 rounded disabled:opacity-50"
+                title="Move down"
+              >
+                ↓
+              </button>
+              <button
+                type="button"
+                onClick={() => removeCall(index)}
+                disabled={disabled || calls.length === 1}
+                className="text-xs px-2 py-1 bg-red-100 text-red-700 hover:bg-red-200 rounded disabled:opacity-50"
+                title="Remove call"
+              >
+                Remove
+              </button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Target Address</label>
+              <input
+                type="text"
+                value={call.to}
+                onChange={e => updateCall(index, 'to', e.target.value)}
+                placeholder="0x..."
+                className={inputClassName}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Amount (MON)</label>
+              <input
+                type="text"
+                value={call.amount}
+                onChange={e => updateCall(index, 'amount', e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Calldata (optional)</label>
+              <input
+                type="text"
+                value={call.data}
+                onChange={e => updateCall(index, 'data', e.target.value)}
+                placeholder="0x"
+                className={`${inputClassName} font-mono`}
+              />
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={addCall}
+        disabled={disabled}
+        className="text-sm px-3 py-1 bg-blue-100 text-blue-700 rounded hover:bg-blue-200 disabled:opacity-50"
+      >
+        + Add Call
+      </button>
+    </div>
+  );
+}
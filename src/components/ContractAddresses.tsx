@@ -2,6 +2,7 @@ import React from 'react';
 import { formatEther } from 'viem';
 import { type Address } from 'viem';
 import Image from 'next/image';
+import Link from 'next/link';
 
 interface ContractAddressesProps {
   paymaster: Address;
@@ -46,6 +47,9 @@ export default function ContractAddresses({
         <strong>Paymaster Deposit:</strong>{' '}
         {paymasterDeposit ? formatEther(BigInt(paymasterDeposit)) : 'N/A'} MON
       </p>
+      <Link href="/admin" className="mt-2 inline-block text-xs text-blue-600 hover:underline">
+        Operator console
+      </Link>
     </div>
   );
 }
@@ -0,0 +1,320 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { toFunctionSignature, type Abi, type AbiFunction, type Address } from 'viem';
+import {
+  PRESET_ABIS,
+  buildContractCall,
+  getAbiFunctions,
+  isReadFunction,
+  parseAbiJson,
+  readContractFunction,
+} from '@/utils/abiCalls';
+import { type TransactionCall } from '@/utils/calls';
+
+export type ContractCallPath = 'sponsored' | 'self-sponsored' | 'eoa';
+
+type PathStatus = {
+  txHash?: string;
+  txStatus?: string;
+  transactionHash?: string;
+};
+
+interface ContractCallFormProps {
+  contractAddresses: { paymaster: Address; shmonad: Address };
+  onSend: (path: ContractCallPath, call: TransactionCall) => Promise<void>;
+  statuses: Record<ContractCallPath, PathStatus>;
+  loading: boolean;
+  // Paths that cannot be used yet, with the reason shown to the user
+  unavailablePaths?: Partial<Record<ContractCallPath, string>>;
+}
+
+const CUSTOM_ABI = 'custom';
+
+const inputClassName =
+  'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500';
+
+const pathOptions: { value: ContractCallPath; label: string }[] = [
+  { value: 'sponsored', label: 'Paymaster Sponsored' },
+  { value: 'self-sponsored', label: 'Self Sponsored' },
+  { value: 'eoa', label: 'Direct from EOA' },
+];
+
+export default function ContractCallForm({
+  contractAddresses,
+  onSend,
+  statuses,
+  loading,
+  unavailablePaths = {},
+}: ContractCallFormProps) {
+  const [abiSource, setAbiSource] = useState('0');
+  const [customAbi, setCustomAbi] = useState('');
+  const [contractAddress, setContractAddress] = useState('');
+  const [functionSignature, setFunctionSignature] = useState('');
+  const [inputs, setInputs] = useState<string[]>([]);
+  const [value, setValue] = useState('0');
+  const [path, setPath] = useState<ContractCallPath>('sponsored');
+  const [formError, setFormError] = useState('');
+  const [readResult, setReadResult] = useState('');
+  const [reading, setReading] = useState(false);
+
+  // Presets fill in the address of their contract when it is known
+  const getPresetAddress = (source: string) => {
+    const preset = PRESET_ABIS[Number(source)];
+    return (preset.contract ? contractAddresses[preset.contract] : preset.address) ?? '';
+  };
+
+  // Contract addresses resolve after the form mounts
+  useEffect(() => {
+    if (abiSource !== CUSTOM_ABI && !contractAddress) {
+      setContractAddress(getPresetAddress(abiSource));
+    }
+  }, [contractAddresses]);
+
+  // Resolve the ABI - a preset, or the pasted JSON with its parse error
+  const { abi, abiError } = useMemo((): { abi: Abi | null; abiError: string } => {
+    if (abiSource !== CUSTOM_ABI) {
+      return { abi: PRESET_ABIS[Number(abiSource)].abi, abiError: '' };
+    }
+    if (!customAbi.trim()) {
+      return { abi: null, abiError: '' };
+    }
+    try {
+      return { abi: parseAbiJson(customAbi), abiError: '' };
+    } catch (error) {
+      return { abi: null, abiError: error instanceof Error ? error.message : 'Invalid ABI' };
+    }
+  }, [abiSource, customAbi]);
+
+  const functions = useMemo(() => (abi ? getAbiFunctions(abi) : []), [abi]);
+  const selectedFunction: AbiFunction | undefined = functions.find(
+    fn => toFunctionSignature(fn) === functionSignature
+  );
+  const isRead = !!selectedFunction && isReadFunction(selectedFunction);
+  const status = statuses[path];
+
+  const resetFunction = () => {
+    setFunctionSignature('');
+    setInputs([]);
+    setValue('0');
+    setFormError('');
+    setReadResult('');
+  };
+
+  const handleAbiSourceChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const source = e.target.value;
+    setAbiSource(source);
+    resetFunction();
+    if (source !== CUSTOM_ABI) {
+      setContractAddress(getPresetAddress(source));
+    }
+  };
+
+  const handleFunctionChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    resetFunction();
+    setFunctionSignature(e.target.value);
+    const fn = functions.find(f => toFunctionSignature(f) === e.target.value);
+    setInputs(fn ? fn.inputs.map(() => '') : []);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedFunction) return;
+
+    setFormError('');
+    setReadResult('');
+
+    if (isRead) {
+      setReading(true);
+      try {
+        setReadResult(
+          await readContractFunction({ to: contractAddress, fn: selectedFunction, inputs })
+        );
+      } catch (error) {
+        setFormError(error instanceof Error ? error.message : 'Read failed');
+      } finally {
+        setReading(false);
+      }
+      return;
+    }
+
+    let call: TransactionCall;
+    try {
+      call = buildContractCall({ to: contractAddress, fn: selectedFunction, inputs, value });
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : 'Invalid call');
+      return;
+    }
+
+    console.log('📝 Sending contract call:', { path, to: call.to, data: call.data });
+    await onSend(path, call);
+  };
+
+  const unavailableReason = !isRead ? unavailablePaths[path] : undefined;
+
+  return (
+    <div className="border p-4 rounded-lg">
+      <h2 className="text-xl font-semibold mb-2">Contract Interaction</h2>
+      <p className="text-sm text-gray-600 mb-3">
+        Call any contract function - calldata is encoded from the ABI and the typed inputs
+      </p>
+
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">ABI</label>
+          <select value={abiSource} onChange={handleAbiSourceChange} className={inputClassName}>
+            {PRESET_ABIS.map((preset, index) => (
+              <option key={preset.name} value={index}>
+                {preset.name}
+              </option>
+            ))}
+            <option value={CUSTOM_ABI}>Paste ABI...</option>
+          </select>
+        </div>
+
+        {abiSource === CUSTOM_ABI && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700">ABI JSON</label>
+            <textarea
+              value={customAbi}
+              onChange={e => {
+                setCustomAbi(e.target.value);
+                resetFunction();
+              }}
+              rows={5}
+              placeholder='[{"type":"function","name":"transfer",...}]'
+              className={`${inputClassName} font-mono text-xs`}
+            />
+            {abiError && <p className="text-red-500 text-sm mt-1">{abiError}</p>}
+          </div>
+        )}
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Contract Address</label>
+          <input
+            type="text"
+            value={contractAddress}
+            onChange={e => setContractAddress(e.target.value)}
+            placeholder="0x..."
+            className={inputClassName}
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Function</label>
+          <select
+            value={functionSignature}
+            onChange={handleFunctionChange}
+            disabled={functions.length === 0}
+            className={inputClassName}
+          >
+            <option value="">Select a function</option>
+            {functions.map(fn => {
+              const signature = toFunctionSignature(fn);
+              return (
+                <option key={signature} value={signature}>
+                  {signature}
+                  {isReadFunction(fn) ? ' (read)' : ''}
+                </option>
+              );
+            })}
+          </select>
+        </div>
+
+        {selectedFunction?.inputs.map((param, index) => (
+          <div key={`${functionSignature}-${index}`}>
+            <label className="block text-sm font-medium text-gray-700">
+              {param.name || `arg${index}`}{' '}
+              <span className="font-mono text-xs text-gray-500">{param.type}</span>
+            </label>
+            <input
+              type="text"
+              value={inputs[index] ?? ''}
+              onChange={e =>
+                setInputs(inputs.map((input, i) => (i === index ? e.target.value : input)))
+              }
+              placeholder={
+                param.type.endsWith(']') || param.type === 'tuple' ? 'JSON value' : param.type
+              }
+              className={`${inputClassName} font-mono`}
+            />
+          </div>
+        ))}
+
+        {selectedFunction?.stateMutability === 'payable' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Value (MON)</label>
+            <input
+              type="text"
+              value={value}
+              onChange={e => setValue(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+        )}
+
+        {selectedFunction && !isRead && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Send Via</label>
+            <select
+              value={path}
+              onChange={e => setPath(e.target.value as ContractCallPath)}
+              className={inputClassName}
+            >
+              {pathOptions.map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                  {unavailablePaths[option.value] ? ' (unavailable)' : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        <button
+          type="submit"
+          className="px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600 disabled:bg-gray-400 disabled:cursor-not-allowed"
+          disabled={!selectedFunction || loading || reading || !!unavailableReason}
+          title={unavailableReason ?? ''}
+        >
+          {isRead ? (reading ? 'Reading...' : 'Read') : 'Send Transaction'}
+        </button>
+
+        {unavailableReason && <p className="text-red-500 text-sm">{unavailableReason}</p>}
+        {formError && <p className="text-red-500 text-sm">{formError}</p>}
+
+        {isRead && readResult && (
+          <div className="mt-3 p-3 bg-gray-50 rounded-md">
+            <p>
+              <strong>Result:</strong>
+            </p>
+            <pre className="mt-1 text-sm font-mono whitespace-pre-wrap break-all">{readResult}</pre>
+          </div>
+        )}
+
+        {!isRead && status.txHash && (
+          <div className="mt-3 p-3 bg-gray-50 rounded-md">
+            <p>
+              <strong>{path === 'eoa' ? 'Transaction Hash' : 'UserOp Hash'}:</strong>{' '}
+              <span className="break-all font-mono text-gray-600">{status.txHash}</span>
+            </p>
+            {status.transactionHash && (
+              <a
+                href={`https://monad-testnet.socialscan.io/tx/${status.transactionHash}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="mt-1 inline-block text-xs px-2 py-1 bg-blue-100 text-blue-700 rounded hover:bg-blue-200"
+              >
+                View Transaction
+              </a>
+            )}
+          </div>
+        )}
+
+        {!isRead && status.txStatus && (
+          <p className="break-words mt-2">
+            <strong>Status:</strong> {status.txStatus}
+          </p>
+        )}
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,315 @@
+import React, { useEffect, useState } from 'react';
+import { formatEther, isAddress, isAddressEqual, parseEther, type Address } from 'viem';
+import { publicClient, type EntryPointVersion } from '@/utils/config';
+import { type TransactionCall } from '@/utils/calls';
+import {
+  buildPaymasterAdminCall,
+  describePaymasterAdminAction,
+  getPaymasterAdminState,
+  type PaymasterAdminAction,
+  type PaymasterAdminState,
+} from '@/utils/paymasterAdmin';
+
+// The connected account that holds the administrator role
+export type AdminSender = 'eoa' | 'smart-account';
+
+type ActionType = PaymasterAdminAction['type'];
+
+type HistoryEntry = {
+  description: string;
+  sender: AdminSender;
+  transactionHash: string | null;
+  time: Date;
+};
+
+interface PaymasterAdminConsoleProps {
+  paymaster?: Address;
+  entryPoint?: { address: Address; version: EntryPointVersion };
+  eoaAddress?: Address;
+  smartAccountAddress?: Address;
+  // Sends the call and resolves to its transaction hash, or null when it failed
+  onSend: (sender: AdminSender, call: TransactionCall) => Promise<string | null>;
+  loading: boolean;
+  txStatuses: Record<AdminSender, string>;
+}
+
+const inputClassName =
+  'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500';
+
+// Inputs each action needs
+const actionOptions: {
+  value: ActionType;
+  label: string;
+  fields: ('amount' | 'address' | 'unstakeDelaySec' | 'newMinBalance')[];
+}[] = [
+  { value: 'deposit', label: 'Deposit to EntryPoint', fields: ['amount'] },
+  { value: 'withdrawTo', label: 'Withdraw deposit', fields: ['address', 'amount'] },
+  { value: 'addStake', label: 'Add stake', fields: ['amount', 'unstakeDelaySec'] },
+  { value: 'unlockStake', label: 'Unlock stake', fields: [] },
+  { value: 'withdrawStake', label: 'Withdraw stake', fields: ['address'] },
+  { value: 'unbondShMonad', label: 'Unbond shMON', fields: ['amount', 'newMinBalance'] },
+  { value: 'redeemAndWithdrawShMonad', label: 'Redeem and withdraw shMON', fields: ['amount'] },
+  { value: 'setAdministrator', label: 'Set administrator', fields: ['address'] },
+];
+
+const fieldLabels = {
+  amount: 'Amount (MON / shMON)',
+  address: 'Address',
+  unstakeDelaySec: 'Unstake delay (seconds)',
+  newMinBalance: 'New minimum balance (shMON)',
+};
+
+/**
+ * Turn the form inputs into an action, throwing on the first invalid input
+ */
+function parseAdminAction(type: ActionType, inputs: Record<string, string>): PaymasterAdminAction {
+  const amount = () => {
+    const value = parseEther(inputs.amount.trim() || '0');
+    if (value <= 0n) throw new Error('Amount must be greater than zero');
+    return value;
+  };
+  const address = () => {
+    const value = inputs.address.trim();
+    if (!isAddress(value)) throw new Error('Invalid address');
+    return value;
+  };
+
+  switch (type) {
+    case 'deposit':
+      return { type, amount: amount() };
+    case 'withdrawTo':
+      return { type, to: address(), amount: amount() };
+    case 'addStake': {
+      const unstakeDelaySec = Number(inputs.unstakeDelaySec);
+      if (!Number.isInteger(unstakeDelaySec) || unstakeDelaySec <= 0) {
+        throw new Error('Unstake delay must be a positive number of seconds');
+      }
+      return { type, amount: amount(), unstakeDelaySec };
+    }
+    case 'unlockStake':
+      return { type };
+    case 'withdrawStake':
+      return { type, to: address() };
+    case 'unbondShMonad':
+      return { type, amount: amount(), newMinBalance: parseEther(inputs.newMinBalance || '0') };
+    case 'redeemAndWithdrawShMonad':
+      return { type, amount: amount() };
+    case 'setAdministrator':
+      return { type, administrator: address() };
+  }
+}
+
+export default function PaymasterAdminConsole({
+  paymaster,
+  entryPoint,
+  eoaAddress,
+  smartAccountAddress,
+  onSend,
+  loading,
+  txStatuses,
+}: PaymasterAdminConsoleProps) {
+  const [state, setState] = useState<PaymasterAdminState | null>(null);
+  const [stateError, setStateError] = useState('');
+  const [actionType, setActionType] = useState<ActionType>('deposit');
+  const [inputs, setInputs] = useState<Record<string, string>>({
+    amount: '',
+    address: '',
+    unstakeDelaySec: '86400',
+    newMinBalance: '0',
+  });
+  const [formError, setFormError] = useState('');
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+
+  const fetchState = async () => {
+    if (!paymaster || !entryPoint) return;
+    setStateError('');
+    try {
+      setState(await getPaymasterAdminState(publicClient, paymaster, entryPoint));
+    } catch (error) {
+      console.error('Error reading paymaster admin state:', error);
+      setStateError(error instanceof Error ? error.message : 'Could not read the paymaster');
+    }
+  };
+
+  useEffect(() => {
+    fetchState();
+  }, [paymaster, entryPoint?.address]);
+
+  // Actions are only offered to the account that holds the administrator role
+  const sender: AdminSender | null = !state
+    ? null
+    : eoaAddress && isAddressEqual(state.administrator, eoaAddress)
+      ? 'eoa'
+      : smartAccountAddress && isAddressEqual(state.administrator, smartAccountAddress)
+        ? 'smart-account'
+        : null;
+
+  const selectedAction = actionOptions.find(option => option.value === actionType)!;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!sender || !paymaster || !entryPoint) return;
+    setFormError('');
+
+    let action: PaymasterAdminAction;
+    try {
+      action = parseAdminAction(actionType, inputs);
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : 'Invalid input');
+      return;
+    }
+
+    const description = describePaymasterAdminAction(action);
+    if (!window.confirm(`${description}?\n\nPaymaster: ${paymaster}`)) return;
+
+    console.log('🛠️ Paymaster admin action:', description);
+    const transactionHash = await onSend(
+      sender,
+      buildPaymasterAdminCall(paymaster, entryPoint.version, action)
+    );
+    setHistory(entries => [
+      { description, sender, transactionHash, time: new Date() },
+      ...entries.slice(0, 19),
+    ]);
+    fetchState();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="border p-4 rounded-lg">
+        <div className="flex justify-between items-center mb-2">
+          <h2 className="text-xl font-semibold">Paymaster State</h2>
+          <button
+            onClick={fetchState}
+            className="text-xs px-2 py-1 bg-gray-200 hover:bg-gray-300 rounded"
+          >
+            Refresh
+          </button>
+        </div>
+        {stateError && <p className="text-red-500 text-sm">{stateError}</p>}
+        {state ? (
+          <div className="space-y-1 text-sm">
+            <p>
+              <strong>Paymaster:</strong> <span className="break-all">{paymaster}</span>
+            </p>
+            <p>
+              <strong>Administrator:</strong>{' '}
+              <span className="break-all">{state.administrator}</span>
+            </p>
+            <p>
+              <strong>Fee:</strong> {state.fee.toString()}
+            </p>
+            <p>
+              <strong>EntryPoint Deposit:</strong> {formatEther(state.deposit)} MON
+            </p>
+            <p>
+              <strong>Stake:</strong> {formatEther(state.stake)} MON (
+              {state.staked ? 'staked' : 'not staked'}, unstake delay {state.unstakeDelaySec}s)
+            </p>
+            {state.withdrawTime > 0 && (
+              <p>
+                <strong>Stake Withdrawable:</strong>{' '}
+                {new Date(state.withdrawTime * 1000).toLocaleString()}
+              </p>
+            )}
+          </div>
+        ) : (
+          !stateError && <p className="text-sm text-gray-600">Loading...</p>
+        )}
+      </div>
+
+      {state && !sender ? (
+        <div className="border p-4 rounded-lg bg-amber-50 text-amber-800 text-sm">
+          Neither the embedded wallet nor the smart account is the paymaster administrator. Connect
+          as {state.administrator} to run administrator actions.
+        </div>
+      ) : (
+        sender && (
+          <form onSubmit={handleSubmit} className="border p-4 rounded-lg space-y-3">
+            <h2 className="text-xl font-semibold">Administrator Actions</h2>
+            <p className="text-sm text-gray-600">
+              Sent from the {sender === 'eoa' ? 'embedded wallet' : 'smart account'}, which holds
+              the administrator role. Every action asks for confirmation first.
+            </p>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Action</label>
+              <select
+                value={actionType}
+                onChange={e => {
+                  setActionType(e.target.value as ActionType);
+                  setFormError('');
+                }}
+                className={inputClassName}
+              >
+                {actionOptions.map(option => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {selectedAction.fields.map(field => (
+              <div key={field}>
+                <label className="block text-sm font-medium text-gray-700">
+                  {fieldLabels[field]}
+                </label>
+                <input
+                  type="text"
+                  value={inputs[field]}
+                  onChange={e => setInputs({ ...inputs, [field]: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+            ))}
+
+            <button
+              type="submit"
+              className="px-4 py-2 bg-red-500 text-white rounded hover:bg-red-600 disabled:bg-gray-400 disabled:cursor-not-allowed"
+              disabled={loading}
+            >
+              Run Action
+            </button>
+            {formError && <p className="text-red-500 text-sm">{formError}</p>}
+            {txStatuses[sender] && (
+              <p className="break-words text-sm">
+                <strong>Status:</strong> {txStatuses[sender]}
+              </p>
+            )}
+          </form>
+        )
+      )}
+
+      {history.length > 0 && (
+        <div className="border p-4 rounded-lg">
+          <h2 className="text-xl font-semibold mb-2">Recent Admin Transactions</h2>
+          <ul className="space-y-2 text-sm">
+            {history.map((entry, index) => (
+              <li key={index} className="border-b pb-2">
+                <p>
+                  <span className="text-gray-500">{entry.time.toLocaleTimeString()}</span>{' '}
+                  {entry.description}{' '}
+                  <span className="text-gray-500">
+                    ({entry.sender === 'eoa' ? 'EOA' : 'smart account'})
+                  </span>
+                </p>
+                {entry.transactionHash ? (
+                  <a
+                    href={`https://monad-testnet.socialscan.io/tx/${entry.transactionHash}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="break-all font-mono text-xs text-blue-600 hover:underline"
+                  >
+                    {entry.transactionHash}
+                  </a>
+                ) : (
+                  <p className="text-xs text-red-600">Failed - see the status above</p>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
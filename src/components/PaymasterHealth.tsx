@@ -0,0 +1,75 @@
+import React, { useEffect, useState } from 'react';
+import { type HealthReport, type HealthStatus } from '@/utils/paymasterHealth';
+
+const statusClassNames: Record<HealthStatus, string> = {
+  pass: 'bg-green-100 text-green-800',
+  warn: 'bg-amber-100 text-amber-800',
+  fail: 'bg-red-100 text-red-800',
+};
+
+export default function PaymasterHealth() {
+  const [report, setReport] = useState<HealthReport | null>(null);
+  const [error, setError] = useState('');
+  const [fetching, setFetching] = useState(false);
+
+  const fetchHealth = async () => {
+    setFetching(true);
+    setError('');
+    try {
+      // 503 still carries the report when a check fails
+      const response = await fetch('/api/paymaster/health');
+      setReport(await response.json());
+    } catch (error) {
+      console.error('Error fetching paymaster health:', error);
+      setError(error instanceof Error ? error.message : 'Could not reach the health endpoint');
+    } finally {
+      setFetching(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchHealth();
+  }, []);
+
+  return (
+    <div className="border p-4 rounded-lg">
+      <div className="flex justify-between items-center mb-2">
+        <h2 className="text-xl font-semibold">
+          Paymaster Health{' '}
+          {report && (
+            <span className={`text-xs px-2 py-0.5 rounded-full ${statusClassNames[report.status]}`}>
+              {report.status}
+            </span>
+          )}
+        </h2>
+        <button
+          onClick={fetchHealth}
+          className="text-xs px-2 py-1 bg-gray-200 hover:bg-gray-300 rounded disabled:opacity-50"
+          disabled={fetching}
+        >
+          {fetching ? 'Checking...' : 'Refresh'}
+        </button>
+      </div>
+      {error && <p className="text-red-500 text-sm">{error}</p>}
+      {report && (
+        <ul className="space-y-1 text-sm">
+          {report.checks.map(check => (
+            <li key={check.name} className="flex items-start gap-2">
+              <span
+                className={`text-xs px-2 py-0.5 rounded-full ${statusClassNames[check.status]}`}
+              >
+                {check.status}
+              </span>
+              <span>
+                <strong>{check.name}:</strong> <span className="break-all">{check.message}</span>
+              </span>
+            </li>
+          ))}
+          <li className="text-xs text-gray-500">
+            Checked {new Date(report.checkedAt).toLocaleTimeString()}
+          </li>
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+import React, { useEffect, useState } from 'react';
+import { formatEther, type Address } from 'viem';
+import { publicClient } from '@/utils/config';
+import { getShmonadPolicies, type ShmonadPolicy } from '@/utils/shmonadPolicies';
+
+interface PolicyExplorerProps {
+  shmonadAddress?: Address;
+  paymasterAddress?: Address;
+  // The policy the Fastlane paymaster sponsors from (its POLICY_ID)
+  paymasterPolicyId: bigint | null;
+  smartAccountAddress?: Address;
+  onBond: (amount: string, policyId: bigint) => Promise<unknown>;
+  loading: boolean;
+  txStatus?: string;
+}
+
+export default function PolicyExplorer({
+  shmonadAddress,
+  paymasterAddress,
+  paymasterPolicyId,
+  smartAccountAddress,
+  onBond,
+  loading,
+  txStatus,
+}: PolicyExplorerProps) {
+  const [policies, setPolicies] = useState<ShmonadPolicy[]>([]);
+  const [policiesError, setPoliciesError] = useState('');
+  const [fetching, setFetching] = useState(false);
+  const [selectedPolicyId, setSelectedPolicyId] = useState<bigint | null>(null);
+  const [bondAmount, setBondAmount] = useState('1');
+
+  const fetchPolicies = async () => {
+    if (!shmonadAddress) return;
+
+    setFetching(true);
+    setPoliciesError('');
+    try {
+      setPolicies(
+        await getShmonadPolicies(publicClient, shmonadAddress, {
+          paymaster: paymasterAddress || undefined,
+          account: smartAccountAddress,
+        })
+      );
+    } catch (error) {
+      console.error('Error fetching shMONAD policies:', error);
+      setPoliciesError(error instanceof Error ? error.message : 'Could not read policies');
+    } finally {
+      setFetching(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchPolicies();
+  }, [shmonadAddress, paymasterAddress, smartAccountAddress]);
+
+  // Default the bond target to the paymaster's policy
+  useEffect(() => {
+    if (selectedPolicyId === null && paymasterPolicyId !== null) {
+      setSelectedPolicyId(paymasterPolicyId);
+    }
+  }, [paymasterPolicyId, selectedPolicyId]);
+
+  const selectedPolicy = policies.find(policy => policy.id === selectedPolicyId);
+
+  const handleBond = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (selectedPolicyId === null) return;
+    console.log('🔗 Bonding to policy:', selectedPolicyId.toString(), bondAmount);
+    await onBond(bondAmount, selectedPolicyId);
+    fetchPolicies();
+  };
+
+  return (
+    <div className="border p-4 rounded-lg">
+      <div className="flex justify-between items-center mb-2">
+        <h2 className="text-xl font-semibold">shMONAD Policies</h2>
+        <button
+          onClick={fetchPolicies}
+          className="text-xs px-2 py-1 bg-gray-200 hover:bg-gray-300 rounded disabled:opacity-50"
+          disabled={fetching || !shmonadAddress}
+        >
+          {fetching ? 'Loading...' : 'Refresh'}
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 mb-3">
+        Bonded shMON belongs to a policy. Self-sponsored transactions only draw on the bond under
+        the Fastlane paymaster&apos;s policy
+        {paymasterPolicyId !== null ? ` (#${paymasterPolicyId})` : ''}.
+      </p>
+
+      {paymasterPolicyId === null && (
+        <p className="text-red-500 text-sm mb-2">
+          The paymaster&apos;s POLICY_ID could not be read - choose a policy to bond to.
+        </p>
+      )}
+      {policiesError && <p className="text-red-500 text-sm mb-2">{policiesError}</p>}
+
+      <div className="space-y-2 max-h-96 overflow-y-auto">
+        {policies.map(policy => (
+          <label
+            key={policy.id.toString()}
+            className={`block border rounded-md p-3 cursor-pointer ${
+              policy.id === selectedPolicyId ? 'border-orange-500 bg-orange-50' : 'border-gray-200'
+            }`}
+          >
+            <div className="flex items-center gap-2">
+              <input
+                type="radio"
+                name="policy"
+                checked={policy.id === selectedPolicyId}
+                onChange={() => setSelectedPolicyId(policy.id)}
+              />
+              <span className="font-semibold">Policy #{policy.id.toString()}</span>
+              <span
+                className={`text-xs px-2 py-0.5 rounded-full ${
+                  policy.active ? 'bg-green-100 text-green-800' : 'bg-gray-200 text-gray-600'
+                }`}
+              >
+                {policy.active ? 'Active' : 'Disabled'}
+              </span>
+              {policy.id === paymasterPolicyId && (
+                <span className="text-xs px-2 py-0.5 rounded-full bg-blue-100 text-blue-800">
+                  Fastlane paymaster
+                </span>
+              )}
+            </div>
+            <p className="text-sm text-gray-600 mt-1">
+              Escrow: {policy.escrowDuration} blocks
+              {policy.bonded > 0n && ` · Your bond: ${formatEther(policy.bonded)} shMON`}
+              {policy.isPaymasterAgent && ' · Paymaster is an agent'}
+            </p>
+            <div className="text-xs text-gray-500 mt-1">
+              <span className="font-medium">Agents:</span>{' '}
+              {policy.agents.length === 0 ? (
+                'none'
+              ) : (
+                <span className="font-mono break-all">{policy.agents.join(', ')}</span>
+              )}
+            </div>
+          </label>
+        ))}
+        {!fetching && policies.length === 0 && !policiesError && (
+          <p className="text-sm text-gray-600">No policies found.</p>
+        )}
+      </div>
+
+      <form onSubmit={handleBond} className="mt-4 flex items-end gap-2">
+        <div className="flex-1">
+          <label className="block text-sm font-medium text-gray-700">
+            Bond MON to policy {selectedPolicyId !== null ? `#${selectedPolicyId}` : ''}
+          </label>
+          <input
+            type="text"
+            value={bondAmount}
+            onChange={e => setBondAmount(e.target.value)}
+            className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-orange-500 focus:border-orange-500"
+            placeholder="Amount in MON"
+            disabled={loading}
+          />
+        </div>
+        <button
+          type="submit"
+          className="px-4 py-2 bg-orange-500 text-white rounded hover:bg-orange-600 disabled:bg-gray-400 disabled:cursor-not-allowed"
+          disabled={loading || selectedPolicyId === null || selectedPolicy?.active === false}
+          title={selectedPolicy?.active === false ? 'This policy is disabled' : ''}
+        >
+          Bond from EOA
+        </button>
+      </form>
+      {selectedPolicyId !== null && selectedPolicyId !== paymasterPolicyId && (
+        <p className="text-xs text-amber-700 mt-1">
+          Bonds under this policy do not pay for self-sponsored transactions.
+        </p>
+      )}
+      {txStatus && (
+        <p className="break-words mt-2 text-sm">
+          <strong>Status:</strong> {txStatus}
+        </p>
+      )}
+    </div>
+  );
+}
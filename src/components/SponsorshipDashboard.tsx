@@ -0,0 +1,230 @@
+import React, { useEffect, useState } from 'react';
+import { formatEther, type Address } from 'viem';
+
+type Total = { count: number; actualGasCost: string };
+
+type SponsorshipsResponse = {
+  paymaster: Address | null;
+  indexedToBlock: string | null;
+  records: {
+    userOpHash: string;
+    sender: Address;
+    mode: 'sponsor' | 'user';
+    actualGasCost: string;
+    success: boolean;
+    transactionHash: string;
+    timestamp: number;
+  }[];
+  totals: {
+    bySender: (Total & { sender: Address })[];
+    byDay: (Total & { day: string })[];
+  };
+};
+
+interface SponsorshipDashboardProps {
+  smartAccountAddress?: Address;
+}
+
+const inputClassName =
+  'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500';
+
+/**
+ * Convert a date input (YYYY-MM-DD) to unix seconds at the start or end of that UTC day
+ */
+function toUnixSeconds(date: string, endOfDay: boolean): string {
+  const time = Date.parse(`${date}T${endOfDay ? '23:59:59' : '00:00:00'}Z`);
+  return Math.floor(time / 1000).toString();
+}
+
+export default function SponsorshipDashboard({ smartAccountAddress }: SponsorshipDashboardProps) {
+  const [sender, setSender] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [mode, setMode] = useState<'' | 'sponsor' | 'user'>('');
+  const [data, setData] = useState<SponsorshipsResponse | null>(null);
+  const [error, setError] = useState('');
+  const [fetching, setFetching] = useState(false);
+
+  const fetchSponsorships = async () => {
+    const params = new URLSearchParams();
+    if (sender.trim()) params.set('sender', sender.trim());
+    if (fromDate) params.set('from', toUnixSeconds(fromDate, false));
+    if (toDate) params.set('to', toUnixSeconds(toDate, true));
+    if (mode) params.set('mode', mode);
+
+    setFetching(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/sponsorships?${params}`);
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.error || `Request failed (${response.status})`);
+      setData(body);
+    } catch (error) {
+      console.error('Error fetching sponsorships:', error);
+      setError(error instanceof Error ? error.message : 'Could not load sponsorships');
+    } finally {
+      setFetching(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSponsorships();
+  }, []);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    fetchSponsorships();
+  };
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleSubmit} className="border p-4 rounded-lg space-y-3">
+        <h2 className="text-xl font-semibold">Sponsorship Activity</h2>
+        <p className="text-sm text-gray-600">
+          UserOperations the paymaster paid for, indexed from its UserOperationSponsored events.
+          {data?.indexedToBlock && ` Indexed to block ${data.indexedToBlock}.`}
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Sender</label>
+            <input
+              type="text"
+              value={sender}
+              onChange={e => setSender(e.target.value)}
+              className={inputClassName}
+              placeholder="Any account"
+            />
+            {smartAccountAddress && (
+              <button
+                type="button"
+                onClick={() => setSender(smartAccountAddress)}
+                className="text-xs text-blue-600 hover:underline mt-1"
+              >
+                Use my smart account
+              </button>
+            )}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Paid by</label>
+            <select
+              value={mode}
+              onChange={e => setMode(e.target.value as '' | 'sponsor' | 'user')}
+              className={inputClassName}
+            >
+              <option value="">Sponsor or user</option>
+              <option value="sponsor">Sponsor</option>
+              <option value="user">User (bonded shMON)</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">From (UTC)</label>
+            <input
+              type="date"
+              value={fromDate}
+              onChange={e => setFromDate(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">To (UTC)</label>
+            <input
+              type="date"
+              value={toDate}
+              onChange={e => setToDate(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+        <button
+          type="submit"
+          className="px-4 py-2 bg-indigo-500 text-white rounded hover:bg-indigo-600 disabled:bg-gray-400 disabled:cursor-not-allowed"
+          disabled={fetching}
+        >
+          {fetching ? 'Loading...' : 'Apply Filters'}
+        </button>
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+      </form>
+
+      {data && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="border p-4 rounded-lg">
+            <h3 className="font-semibold mb-2">Totals per Day</h3>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th>Day</th>
+                  <th>Operations</th>
+                  <th>Gas Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.totals.byDay.map(total => (
+                  <tr key={total.day} className="border-t">
+                    <td>{total.day}</td>
+                    <td>{total.count}</td>
+                    <td>{formatEther(BigInt(total.actualGasCost))} MON</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="border p-4 rounded-lg">
+            <h3 className="font-semibold mb-2">Totals per Sender</h3>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th>Sender</th>
+                  <th>Operations</th>
+                  <th>Gas Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.totals.bySender.map(total => (
+                  <tr key={total.sender} className="border-t">
+                    <td className="font-mono text-xs" title={total.sender}>
+                      {total.sender.slice(0, 8)}...{total.sender.slice(-6)}
+                    </td>
+                    <td>{total.count}</td>
+                    <td>{formatEther(BigInt(total.actualGasCost))} MON</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {data && (
+        <div className="border p-4 rounded-lg">
+          <h3 className="font-semibold mb-2">Recent Sponsorships ({data.records.length})</h3>
+          {data.records.length === 0 ? (
+            <p className="text-sm text-gray-600">No sponsored operations match these filters.</p>
+          ) : (
+            <ul className="space-y-2 text-sm max-h-96 overflow-y-auto">
+              {data.records.slice(0, 50).map(record => (
+                <li key={record.userOpHash} className="border-b pb-2">
+                  <p>
+                    <span className="text-gray-500">
+                      {new Date(record.timestamp * 1000).toLocaleString()}
+                    </span>{' '}
+                    {formatEther(BigInt(record.actualGasCost))} MON paid by{' '}
+                    {record.mode === 'sponsor' ? 'the sponsor' : 'the user'}
+                    {!record.success && <span className="text-red-600"> (reverted)</span>}
+                  </p>
+                  <a
+                    href={`https://monad-testnet.socialscan.io/tx/${record.transactionHash}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="break-all font-mono text-xs text-blue-600 hover:underline"
+                  >
+                    {record.sender}
+                  </a>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
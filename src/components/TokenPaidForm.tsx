@@ -0,0 +1,81 @@
+import React, { useEffect, useState } from 'react';
+import { formatUnits, type Address } from 'viem';
+import TransactionForm from './TransactionForm';
+import { type TransactionCall } from '@/utils/calls';
+import { type TokenBalance } from '@/utils/erc20';
+
+interface TokenPaidFormProps {
+  tokenBalances: TokenBalance[];
+  onSubmitCalls: (token: Address, calls: TransactionCall[]) => void;
+  loading: boolean;
+  disabled?: boolean;
+  disabledReason?: string;
+  txHash?: string;
+  txStatus?: string;
+  transactionHash?: string;
+}
+
+export default function TokenPaidForm({
+  tokenBalances,
+  onSubmitCalls,
+  loading,
+  disabled = false,
+  disabledReason,
+  txHash,
+  txStatus,
+  transactionHash,
+}: TokenPaidFormProps) {
+  const [selectedToken, setSelectedToken] = useState('');
+
+  // Default to the first known token (shMON) once balances load
+  useEffect(() => {
+    if (!selectedToken && tokenBalances.length > 0) {
+      setSelectedToken(tokenBalances[0].address);
+    }
+  }, [tokenBalances, selectedToken]);
+
+  const token = tokenBalances.find(balance => balance.address === selectedToken) ?? null;
+
+  return (
+    <div className="space-y-3">
+      <div className="border p-4 rounded-lg">
+        <label className="block text-sm font-medium text-gray-700">Pay Gas With</label>
+        <select
+          value={selectedToken}
+          onChange={e => setSelectedToken(e.target.value)}
+          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+        >
+          {tokenBalances.map(balance => (
+            <option key={balance.address} value={balance.address}>
+              {balance.symbol}
+            </option>
+          ))}
+        </select>
+
+        {token && (
+          <p className="text-sm text-gray-600 mt-2">
+            Smart account balance: {formatUnits(token.balance, token.decimals)} {token.symbol}
+          </p>
+        )}
+        <p className="text-xs text-gray-500 mt-1">
+          The gas cost in {token?.symbol ?? 'tokens'} is shown for confirmation before the
+          transaction is signed
+        </p>
+      </div>
+
+      <TransactionForm
+        title={`Send Transaction (Gas Paid in ${token?.symbol ?? 'Tokens'})`}
+        buttonText="Send Transaction"
+        onSubmitCalls={calls => token && onSubmitCalls(token.address, calls)}
+        loading={loading}
+        disabled={disabled || !token}
+        disabledReason={disabled ? disabledReason : !token ? 'Select a token' : undefined}
+        txHash={txHash}
+        txStatus={txStatus}
+        description="The paymaster fronts the gas and is repaid in the selected token - an approval for the quoted cost is added to the batch"
+        transactionHash={transactionHash}
+        showUserOpHash={true}
+      />
+    </div>
+  );
+}
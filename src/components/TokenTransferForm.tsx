@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import { formatUnits, isAddress, type Address } from 'viem';
+import TransactionForm from './TransactionForm';
+import { publicClient } from '@/utils/config';
+import { getTokenBalances, type TokenBalance } from '@/utils/erc20';
+
+interface TokenTransferFormProps {
+  smartAccountAddress?: Address;
+  tokenBalances: TokenBalance[];
+  onTransfer: (token: Address, recipient: string, amount: string) => void;
+  loading: boolean;
+  disabled?: boolean;
+  disabledReason?: string;
+  txHash?: string;
+  txStatus?: string;
+  transactionHash?: string;
+}
+
+const CUSTOM_TOKEN = 'custom';
+
+export default function TokenTransferForm({
+  smartAccountAddress,
+  tokenBalances,
+  onTransfer,
+  loading,
+  disabled = false,
+  disabledReason,
+  txHash,
+  txStatus,
+  transactionHash,
+}: TokenTransferFormProps) {
+  const [selectedToken, setSelectedToken] = useState('');
+  const [customTokenAddress, setCustomTokenAddress] = useState('');
+  const [customToken, setCustomToken] = useState<TokenBalance | null>(null);
+  const [customTokenError, setCustomTokenError] = useState('');
+
+  // Default to the first known token (shMON) once balances load
+  useEffect(() => {
+    if (!selectedToken && tokenBalances.length > 0) {
+      setSelectedToken(tokenBalances[0].address);
+    }
+  }, [tokenBalances, selectedToken]);
+
+  // Look up any other ERC-20 the user enters
+  useEffect(() => {
+    setCustomToken(null);
+    setCustomTokenError('');
+    if (selectedToken !== CUSTOM_TOKEN || !smartAccountAddress) return;
+    if (!isAddress(customTokenAddress)) {
+      if (customTokenAddress) setCustomTokenError('Invalid token address');
+      return;
+    }
+
+    let cancelled = false;
+    getTokenBalances(publicClient, [customTokenAddress], smartAccountAddress).then(([token]) => {
+      if (cancelled) return;
+      if (token) {
+        setCustomToken(token);
+      } else {
+        setCustomTokenError('Could not read an ERC-20 token at this address');
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedToken, customTokenAddress, smartAccountAddress]);
+
+  const token =
+    selectedToken === CUSTOM_TOKEN
+      ? customToken
+      : (tokenBalances.find(balance => balance.address === selectedToken) ?? null);
+
+  return (
+    <div className="space-y-3">
+      <div className="border p-4 rounded-lg">
+        <label className="block text-sm font-medium text-gray-700">Token</label>
+        <select
+          value={selectedToken}
+          onChange={e => setSelectedToken(e.target.value)}
+          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+        >
+          {tokenBalances.map(balance => (
+            <option key={balance.address} value={balance.address}>
+              {balance.symbol}
+            </option>
+          ))}
+          <option value={CUSTOM_TOKEN}>Other ERC-20...</option>
+        </select>
+
+        {selectedToken === CUSTOM_TOKEN && (
+          <input
+            type="text"
+            value={customTokenAddress}
+            onChange={e => setCustomTokenAddress(e.target.value.trim())}
+            placeholder="Token address 0x..."
+            className="mt-2 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+          />
+        )}
+        {customTokenError && <p className="text-red-500 text-sm mt-1">{customTokenError}</p>}
+
+        {token && (
+          <p className="text-sm text-gray-600 mt-2">
+            Smart account balance: {formatUnits(token.balance, token.decimals)} {token.symbol}
+          </p>
+        )}
+      </div>
+
+      <TransactionForm
+        title={`Send ${token?.symbol ?? 'Tokens'} (Paymaster Sponsored)`}
+        buttonText="Send Tokens"
+        onSubmit={(recipient, amount) => token && onTransfer(token.address, recipient, amount)}
+        loading={loading}
+        disabled={disabled || !token}
+        disabledReason={disabled ? disabledReason : !token ? 'Select a token' : undefined}
+        txHash={txHash}
+        txStatus={txStatus}
+        defaultAmount="1"
+        amountLabel={`Amount (${token?.symbol ?? 'tokens'})`}
+        description="ERC-20 transfer from the smart account - gas is covered by the Fastlane paymaster"
+        isFastlaneSponsored={true}
+        transactionHash={transactionHash}
+        showUserOpHash={true}
+      />
+    </div>
+  );
+}
@@ -1,16 +1,21 @@
 import React, { useState } from 'react';
 import FastlaneSponsor from './FastlaneSponsor';
+import CallListEditor from './CallListEditor';
+import { parseCallInputs, type CallInput, type TransactionCall } from '@/utils/calls';
 
 interface TransactionFormProps {
   title: string;
   buttonText: string;
-  onSubmit: (recipient: string, amount: string) => void;
+  onSubmit?: (recipient: string, amount: string) => void;
+  // When set, the form edits a list of calls that are sent as one batch instead of one transfer
+  onSubmitCalls?: (calls: TransactionCall[]) => void;
   loading: boolean;
   disabled?: boolean;
   disabledReason?: string;
   txHash?: string;
   txStatus?: string;
   defaultAmount?: string;
+  amountLabel?: string;
   description?: string;
   isFastlaneSponsored?: boolean;
   transactionHash?: string;
@@ -21,12 +26,14 @@ export default function TransactionForm({
   title,
   buttonText,
   onSubmit,
+  onSubmitCalls,
   loading,
   disabled = false,
   disabledReason,
   txHash,
   txStatus,
   defaultAmount = '0.001',
+  amountLabel = 'Amount (MON)',
   description,
   isFastlaneSponsored = false,
   transactionHash,
@@ -34,6 +41,8 @@ export default function TransactionForm({
 }: TransactionFormProps) {
   const [recipient, setRecipient] = useState('');
   const [amount, setAmount] = useState(defaultAmount);
+  const [calls, setCalls] = useState<CallInput[]>([{ to: '', amount: defaultAmount, data: '' }]);
+  const [callsError, setCallsError] = useState('');
   const [copied, setCopied] = useState(false);
 
   // Check if the status indicates an error
@@ -51,7 +60,19 @@ export default function TransactionForm({
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSubmit(recipient, amount);
+
+    if (onSubmitCalls) {
+      try {
+        const parsedCalls = parseCallInputs(calls);
+        setCallsError('');
+        onSubmitCalls(parsedCalls);
+      } catch (error) {
+        setCallsError(error instanceof Error ? error.message : 'Invalid calls');
+      }
+      return;
+    }
+
+    onSubmit?.(recipient, amount);
   };
 
   const copyErrorToClipboard = () => {
@@ -97,26 +118,42 @@ export default function TransactionForm({
       )}
 
       <form onSubmit={handleSubmit} className="space-y-3">
-        <div>
-          <label className="block text-sm font-medium text-gray-700">Recipient Address</label>
-          <input
-            type="text"
-            value={recipient}
-            onChange={e => setRecipient(e.target.value)}
-            placeholder="0x..."
-            className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
-          />
-        </div>
+        {onSubmitCalls ? (
+          <>
+            <CallListEditor
+              calls={calls}
+              onChange={updatedCalls => {
+                setCalls(updatedCalls);
+                setCallsError('');
+              }}
+              disabled={loading}
+            />
+            {callsError && <p className="text-red-500 text-sm">{callsError}</p>}
+          </>
+        ) : (
+          <>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Recipient Address</label>
+              <input
+                type="text"
+                value={recipient}
+                onChange={e => setRecipient(e.target.value)}
+                placeholder="0x..."
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+              />
+            </div>
 
-        <div>
-          <label className="block text-sm font-medium text-gray-700">Amount (MON)</label>
-          <input
-            type="text"
-            value={amount}
-            onChange={e => setAmount(e.target.value)}
-            className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
-          />
-        </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">{amountLabel}</label>
+              <input
+                type="text"
+                value={amount}
+                onChange={e => setAmount(e.target.value)}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+              />
+            </div>
+          </>
+        )}
 
         <div className="flex flex-wrap gap-2">
           <button
@@ -0,0 +1,238 @@
+import React, { useEffect, useState } from 'react';
+import { formatEther, type Address } from 'viem';
+import { publicClient } from '@/utils/config';
+import {
+  getBondedBalance,
+  getUnbondingState,
+  type ClaimAction,
+  type UnbondingState,
+} from '@/utils/shmonadBonds';
+
+interface UnbondShmonFormProps {
+  // Bond and unbond under the paymaster's policy
+  bondedShmon: string;
+  unbondingShmon: UnbondingState | null;
+  shmonadAddress?: Address;
+  smartAccountAddress?: Address;
+  // The policy the Fastlane paymaster sponsors from (its POLICY_ID)
+  paymasterPolicyId: bigint | null;
+  onUnbond: (amount: string, policyId: bigint) => Promise<unknown>;
+  onClaim: (action: ClaimAction, policyId: bigint) => Promise<unknown>;
+  loading: boolean;
+  txHash?: string;
+  txStatus?: string;
+}
+
+const claimOptions: { value: ClaimAction; label: string; description: string }[] = [
+  {
+    value: 'withdraw',
+    label: 'Withdraw to MON',
+    description: 'Claim and redeem the shares for MON',
+  },
+  { value: 'claim', label: 'Keep as shMON', description: 'Claim the shares to the smart account' },
+  { value: 'rebond', label: 'Rebond', description: 'Claim and bond the shares again' },
+];
+
+export default function UnbondShmonForm({
+  bondedShmon,
+  unbondingShmon,
+  shmonadAddress,
+  smartAccountAddress,
+  paymasterPolicyId,
+  onUnbond,
+  onClaim,
+  loading,
+  txHash,
+  txStatus,
+}: UnbondShmonFormProps) {
+  const [unbondAmount, setUnbondAmount] = useState('');
+  const [claimAction, setClaimAction] = useState<ClaimAction>('withdraw');
+  // Policy to unbond from, empty for the paymaster's
+  const [policyInput, setPolicyInput] = useState('');
+  const [otherBond, setOtherBond] = useState<{
+    bonded: bigint;
+    unbonding: UnbondingState | null;
+  } | null>(null);
+  const [otherBondError, setOtherBondError] = useState('');
+  const [otherBondRefreshes, setOtherBondRefreshes] = useState(0);
+
+  const trimmedPolicy = policyInput.trim();
+  const isPolicyValid = trimmedPolicy === '' || /^[1-9]\d*$/.test(trimmedPolicy);
+  const selectedPolicyId =
+    trimmedPolicy === '' ? paymasterPolicyId : isPolicyValid ? BigInt(trimmedPolicy) : null;
+  const isOtherPolicy = selectedPolicyId !== null && selectedPolicyId !== paymasterPolicyId;
+
+  // The wallet state only covers the paymaster's policy, so other policies are read here
+  useEffect(() => {
+    setOtherBond(null);
+    setOtherBondError('');
+    if (!isOtherPolicy || !shmonadAddress || !smartAccountAddress) return;
+
+    let cancelled = false;
+    Promise.all([
+      getBondedBalance(publicClient, shmonadAddress, selectedPolicyId, smartAccountAddress),
+      getUnbondingState(publicClient, shmonadAddress, selectedPolicyId, smartAccountAddress),
+    ])
+      .then(([bonded, unbonding]) => {
+        if (!cancelled) setOtherBond({ bonded, unbonding });
+      })
+      .catch(error => {
+        console.error('Error reading the policy bond:', error);
+        if (!cancelled) {
+          setOtherBondError(`Could not read the bond under policy #${selectedPolicyId}`);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOtherPolicy, selectedPolicyId, shmonadAddress, smartAccountAddress, otherBondRefreshes]);
+
+  const bonded = isOtherPolicy ? (otherBond?.bonded ?? 0n) : BigInt(bondedShmon);
+  const unbonding = isOtherPolicy ? (otherBond?.unbonding ?? null) : unbondingShmon;
+  const isBonded = bonded !== 0n;
+
+  const handleUnbond = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (selectedPolicyId === null) return;
+    console.log('🔓 Unbonding shMON:', unbondAmount, 'from policy', selectedPolicyId.toString());
+    await onUnbond(unbondAmount, selectedPolicyId);
+    if (isOtherPolicy) setOtherBondRefreshes(count => count + 1);
+  };
+
+  const handleClaim = async (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (selectedPolicyId === null) return;
+    console.log(
+      '📥 Claiming unbonded shMON:',
+      claimAction,
+      'from policy',
+      selectedPolicyId.toString()
+    );
+    await onClaim(claimAction, selectedPolicyId);
+    if (isOtherPolicy) setOtherBondRefreshes(count => count + 1);
+  };
+
+  return (
+    <div className="border p-4 rounded-lg">
+      <h2 className="text-xl font-semibold mb-2">Unbond & Claim shMON</h2>
+      <p className="text-sm text-gray-600 mb-3">
+        Unbonded shMON stays locked for the policy&apos;s escrow period, then it can be claimed.
+        Self-sponsored transactions draw on the bonded balance, so unbonding reduces what they can
+        spend.
+      </p>
+
+      <div className="mb-3">
+        <label htmlFor="unbondPolicy" className="text-sm font-medium text-gray-700">
+          Policy
+        </label>
+        <input
+          id="unbondPolicy"
+          type="text"
+          value={policyInput}
+          onChange={e => setPolicyInput(e.target.value)}
+          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-orange-500 focus:border-orange-500"
+          placeholder={
+            paymasterPolicyId !== null
+              ? `Fastlane paymaster policy (#${paymasterPolicyId})`
+              : 'Policy ID'
+          }
+          disabled={loading}
+        />
+        {!isPolicyValid && <p className="text-red-500 text-xs mt-1">Enter a policy ID</p>}
+        {otherBondError && <p className="text-red-500 text-xs mt-1">{otherBondError}</p>}
+      </div>
+
+      {isBonded ? (
+        <form onSubmit={handleUnbond} className="bg-white p-4 rounded-lg shadow-sm">
+          <label htmlFor="unbondAmount" className="text-sm font-medium text-gray-700">
+            Amount of shMON to Unbond
+          </label>
+          <div className="flex items-center">
+            <input
+              id="unbondAmount"
+              type="text"
+              value={unbondAmount}
+              onChange={e => setUnbondAmount(e.target.value)}
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-orange-500 focus:border-orange-500"
+              placeholder="Amount in shMON"
+              disabled={loading}
+            />
+            <button
+              type="button"
+              onClick={() => setUnbondAmount(formatEther(bonded))}
+              className="ml-2 text-xs px-2 py-1 bg-gray-200 hover:bg-gray-300 rounded"
+              disabled={loading}
+            >
+              Max
+            </button>
+          </div>
+          <p className="text-xs text-gray-500 mt-1">Bonded: {formatEther(bonded)} shMON</p>
+          <button
+            type="submit"
+            className="mt-3 w-full px-4 py-2 bg-orange-500 text-white rounded hover:bg-orange-600 disabled:bg-gray-400 disabled:cursor-not-allowed"
+            disabled={loading || !unbondAmount || selectedPolicyId === null}
+          >
+            Start Unbonding
+          </button>
+        </form>
+      ) : (
+        <p className="text-sm text-gray-600">
+          The smart account has no bonded shMON to unbond under this policy.
+        </p>
+      )}
+
+      {unbonding && (
+        <div className="mt-4 bg-white p-4 rounded-lg shadow-sm">
+          <div className="flex justify-between items-center">
+            <span className="text-gray-700">Unbonding:</span>
+            <span className="font-semibold">{formatEther(unbonding.amount)} shMON</span>
+          </div>
+          <p className="mt-1 text-sm text-gray-600">
+            {unbonding.claimable
+              ? 'Ready to claim'
+              : `${unbonding.blocksRemaining} blocks remaining (claimable at block ${unbonding.completeBlock})`}
+          </p>
+
+          <div className="mt-3 space-y-1">
+            {claimOptions.map(option => (
+              <label key={option.value} className="flex items-start gap-2 text-sm">
+                <input
+                  type="radio"
+                  name="claimAction"
+                  value={option.value}
+                  checked={claimAction === option.value}
+                  onChange={() => setClaimAction(option.value)}
+                  className="mt-1"
+                />
+                <span>
+                  <strong>{option.label}</strong> - {option.description}
+                </span>
+              </label>
+            ))}
+          </div>
+
+          <button
+            onClick={handleClaim}
+            className="mt-3 w-full px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600 disabled:bg-gray-400 disabled:cursor-not-allowed"
+            disabled={loading || !unbonding.claimable || selectedPolicyId === null}
+            title={!unbonding.claimable ? 'The unbonding period has not passed yet' : ''}
+          >
+            Claim
+          </button>
+        </div>
+      )}
+
+      {txHash && (
+        <p className="mt-3 text-sm">
+          <strong>UserOp Hash:</strong>{' '}
+          <span className="break-all font-mono text-gray-600">{txHash}</span>
+        </p>
+      )}
+      {txStatus && (
+        <p className="break-words mt-2 text-sm">
+          <strong>Status:</strong> {txStatus}
+        </p>
+      )}
+    </div>
+  );
+}
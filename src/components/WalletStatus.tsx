@@ -1,12 +1,18 @@
 import React from 'react';
-import { formatEther } from 'viem';
+import { formatEther, formatUnits } from 'viem';
+import { type TokenBalance } from '@/utils/erc20';
+import { LOW_BOND_TRANSACTIONS } from '@/utils/config';
 
 interface WalletStatusProps {
   embeddedWallet: any;
   smartAccount: any;
   walletBalance: string;
   smartAccountBalance: string;
+  tokenBalances?: TokenBalance[];
   bondedShmon: string;
+  // Estimated self-sponsored transactions the bond still pays for
+  bondedTransactionsLeft?: bigint | null;
+  hasTopUp?: boolean;
 }
 
 export default function WalletStatus({
@@ -14,8 +20,14 @@ export default function WalletStatus({
   smartAccount,
   walletBalance,
   smartAccountBalance,
+  tokenBalances = [],
   bondedShmon,
+  bondedTransactionsLeft = null,
+  hasTopUp = false,
 }: WalletStatusProps) {
+  const isBondLow =
+    bondedTransactionsLeft !== null && bondedTransactionsLeft < BigInt(LOW_BOND_TRANSACTIONS);
+
   return (
     <div className="border p-4 rounded-lg">
       <h2 className="text-xl font-semibold mb-2">Wallet Status</h2>
@@ -45,11 +57,26 @@ export default function WalletStatus({
                 <strong>Smart Account Balance:</strong> {formatEther(BigInt(smartAccountBalance))}{' '}
                 MON
               </p>
+              {tokenBalances.map(token => (
+                <p key={token.address}>
+                  <strong>{token.symbol} Balance:</strong>{' '}
+                  {formatUnits(token.balance, token.decimals)} {token.symbol}
+                </p>
+              ))}
               {bondedShmon && (
                 <p>
                   <strong>Bonded shMON:</strong> {formatEther(BigInt(bondedShmon))} shMON
                 </p>
               )}
+              {isBondLow && (
+                <div className="bg-amber-100 border-l-4 border-amber-500 p-2 text-sm text-amber-800">
+                  Bonded shMON covers only about {bondedTransactionsLeft?.toString()} more
+                  self-sponsored transactions at the current gas price.{' '}
+                  {hasTopUp
+                    ? 'Automatic top-up is on - make sure the smart account holds unbonded shMON.'
+                    : 'Bond more MON or turn on automatic top-up.'}
+                </div>
+              )}
             </>
           )}
         </div>
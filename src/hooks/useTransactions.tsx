@@ -1,13 +1,41 @@
 import { useState } from 'react';
-import { MONAD_CHAIN, publicClient } from '@/utils/config';
-import { Account, encodeFunctionData, parseEther, type Address, type Hex } from 'viem';
-import { maxUint256, isAddress } from 'viem';
-import shmonadAbi from '@/abis/shmonad.json';
+import { MONAD_CHAIN, publicClient, TOKEN_PAYMASTER_ADDRESS } from '@/utils/config';
+import { Account, parseEther, type Address, type Hex } from 'viem';
+import { isAddress, isAddressEqual, erc20Abi, formatUnits } from 'viem';
 import { WalletManagerState } from './useWalletManager';
 import { ShBundler } from '@/utils/bundler';
 import { logger } from '../utils/logger';
-import { generateSelfSponsoredPaymasterAndData } from '@/utils/paymasterClients';
+import {
+  estimateSelfSponsoredPaymasterAndData,
+  estimateSelfSponsoredPaymasterAndDataV06,
+  fetchTokenQuotes,
+} from '@/utils/paymasterClients';
 import { UserOperation } from 'viem/account-abstraction';
+import { type TransactionCall } from '@/utils/calls';
+import { buildTokenTransferCall, getTokenInfo } from '@/utils/erc20';
+import {
+  buildTokenApprovalCall,
+  decodeTokenPaymasterData,
+  getTokenCost,
+} from '@/utils/tokenPaymaster';
+import { applyGasMargin, DEFAULT_GAS_MARGIN_PERCENT } from '@/utils/gasEstimation';
+import { getUserOperationMaxGasCost } from '@/utils/sponsorPolicy';
+import {
+  buildBondCall,
+  buildClaimCall,
+  buildSetTopUpCall,
+  buildUnbondCall,
+  getBondedBalance,
+  getUnbondingState,
+  type BondSource,
+  type ClaimAction,
+} from '@/utils/shmonadBonds';
+import { getUserOperationValidity, type ValidityWindowContext } from '@/utils/validityWindow';
+
+// Paymaster signatures expiring sooner than this are refreshed before submission, in seconds
+const PAYMASTER_EXPIRY_MARGIN_SECONDS = 30;
+// Times a sponsored operation is re-prepared when its paymaster signature expired
+const MAX_PAYMASTER_REFRESHES = 2;
 
 // Helper function to serialize BigInt values for logging
 function serializeBigInt(obj: any): any {
@@ -22,6 +50,23 @@ type TransactionState = {
   sponsoredTxStatus: string;
   selfSponsoredTxHash: string;
   selfSponsoredTxStatus: string;
+  tokenPaidTxHash: string;
+  tokenPaidTxStatus: string;
+};
+
+// Gas cost of a token paid operation, shown to the user before signing
+export type TokenGasCost = {
+  symbol: string;
+  decimals: number;
+  maxTokenCost: bigint;
+  approval: bigint;
+};
+
+// Bond top-up settings as entered: shMON amounts and a period in blocks
+export type TopUpSettings = {
+  minBonded: string;
+  maxTopUpPerPeriod: string;
+  topUpPeriodDuration: string;
 };
 
 // Type for transaction result
@@ -34,15 +79,72 @@ type TransactionResult = {
 type TransactionsHookReturn = TransactionState & {
   // Transaction functions
   sendTransaction: (recipient: string, amount: string) => Promise<string | null>;
+  sendEoaCall: (call: TransactionCall) => Promise<string | null>;
   sendSponsoredTransaction: (to: string, amount: string) => Promise<TransactionResult | null>;
+  sendSponsoredCalls: (
+    calls: TransactionCall[],
+    validity?: ValidityWindowContext
+  ) => Promise<TransactionResult | null>;
+  sendSponsoredTokenTransfer: (
+    token: Address,
+    recipient: string,
+    amount: string
+  ) => Promise<TransactionResult | null>;
   sendSelfSponsoredTransaction: (
     recipient: string,
     amount: string
   ) => Promise<TransactionResult | null | undefined>;
-  bondMonToShmon: (amount?: string) => Promise<any>;
+  sendSelfSponsoredCalls: (
+    calls: TransactionCall[]
+  ) => Promise<TransactionResult | null | undefined>;
+  sendTokenPaidCalls: (
+    calls: TransactionCall[],
+    token: Address,
+    confirmCost: (cost: TokenGasCost) => boolean | Promise<boolean>
+  ) => Promise<TransactionResult | null>;
+  bondMonToShmon: (amount?: string, source?: BondSource, policyId?: bigint) => Promise<any>;
+  unbondShmon: (amount: string, policyId?: bigint) => Promise<TransactionResult | null>;
+  claimUnbondedShmon: (action: ClaimAction, policyId?: bigint) => Promise<TransactionResult | null>;
+  configureBondTopUp: (settings: TopUpSettings) => Promise<TransactionResult | null>;
   setTxStatus: (status: string) => void;
 };
 
+// Plain copy of a prepared, signed UserOperation for sendUserOperation. structuredClone can't
+// handle the functions viem leaves on it, so only the serializable fields are kept.
+function toFinalUserOperation(userOperation: any) {
+  return {
+    sender: userOperation.sender,
+    nonce: userOperation.nonce,
+    callGasLimit: userOperation.callGasLimit || 100000n,
+    verificationGasLimit: userOperation.verificationGasLimit || 300000n,
+    preVerificationGas: userOperation.preVerificationGas || 210000n,
+    maxFeePerGas: userOperation.maxFeePerGas,
+    maxPriorityFeePerGas: userOperation.maxPriorityFeePerGas,
+    signature: userOperation.signature,
+    callData: userOperation.callData,
+    // Include EntryPoint version specific fields
+    ...('paymasterVerificationGasLimit' in userOperation
+      ? {
+          paymasterVerificationGasLimit: userOperation.paymasterVerificationGasLimit,
+          paymasterPostOpGasLimit: userOperation.paymasterPostOpGasLimit,
+        }
+      : {}),
+    ...('paymaster' in userOperation && userOperation.paymaster
+      ? { paymaster: userOperation.paymaster }
+      : {}),
+    ...('paymasterData' in userOperation && userOperation.paymasterData
+      ? { paymasterData: userOperation.paymasterData }
+      : {}),
+    ...('paymasterAndData' in userOperation && userOperation.paymasterAndData
+      ? { paymasterAndData: userOperation.paymasterAndData }
+      : {}),
+    // EIP-7702: keep the signed delegation, or the bundler client would add a dummy one
+    ...('authorization' in userOperation && userOperation.authorization
+      ? { authorization: userOperation.authorization }
+      : {}),
+  };
+}
+
 // Helper function for consistent error handling
 function handleTransactionError(error: any, setStatusFn: (status: string) => void) {
   logger.error('Transaction error', error);
@@ -72,6 +174,11 @@ export function useTransactions(walletManager: WalletManagerState): Transactions
     walletClient,
     contractAddresses,
     embeddedWallet,
+    bondedShmon,
+    unbondingShmon,
+    policyId,
+    refreshBondData,
+    getAuthorization,
   } = walletManager;
 
   // Transaction status states
@@ -86,6 +193,10 @@ export function useTransactions(walletManager: WalletManagerState): Transactions
   const [selfSponsoredTxHash, setSelfSponsoredTxHash] = useState<string>('');
   const [selfSponsoredTxStatus, setSelfSponsoredTxStatus] = useState<string>('');
 
+  // Token paid transaction states
+  const [tokenPaidTxHash, setTokenPaidTxHash] = useState<string>('');
+  const [tokenPaidTxStatus, setTokenPaidTxStatus] = useState<string>('');
+
   // Regular transaction - updated to use Smart Account Client
   async function sendTransaction(recipient: string, amount: string): Promise<string | null> {
     if (!walletClient) {
@@ -93,45 +204,58 @@ export function useTransactions(walletManager: WalletManagerState): Transactions
       return null;
     }
 
+    let parsedAmount: bigint;
     try {
-      setTxStatus('Preparing transaction...');
-
       // Parse the amount for the transaction
-      const parsedAmount = parseEther(amount);
-
-      // Create recipient address - if not valid, send to self
-      const to =
-        recipient && recipient.startsWith('0x') && recipient.length === 42
-          ? (recipient as Address)
-          : walletClient.account?.address;
-
-      // Only use the smartAccountClient approach - no bundler or paymaster
-      if (walletClient) {
-        setTxStatus('Using smart account client for transaction...');
-        console.log('💰 Using smart account client directly for NON-SPONSORED transaction');
-
-        // Use the smart account client for the transaction
-        const hash = await walletClient.sendTransaction({
-          to: to,
-          value: parsedAmount,
-          data: '0x' as Hex,
-          account: walletClient.account as Account,
-          chain: MONAD_CHAIN,
-        });
+      parsedAmount = parseEther(amount);
+    } catch (error) {
+      handleTransactionError(error, setTxStatus);
+      return null;
+    }
 
-        setTxHash(hash);
-        setTxStatus('Waiting for transaction confirmation...');
+    // Create recipient address - if not valid, send to self
+    const to =
+      recipient && recipient.startsWith('0x') && recipient.length === 42
+        ? (recipient as Address)
+        : walletClient.account?.address;
+    if (!to) {
+      setTxStatus('No recipient address');
+      return null;
+    }
 
-        // Wait for the transaction receipt
-        const receipt = await publicClient.waitForTransactionReceipt({
-          hash: hash,
-        });
+    return sendEoaCall({ to, value: parsedAmount, data: '0x' });
+  }
 
-        setTxStatus(`Transaction confirmed! Transaction hash: ${receipt.transactionHash}`);
-        return receipt.transactionHash;
-      } else {
-        throw new Error('Smart account client not available to send the transaction');
-      }
+  // Send a single call directly from the embedded EOA, without a bundler or paymaster
+  async function sendEoaCall(call: TransactionCall): Promise<string | null> {
+    if (!walletClient) {
+      setTxStatus('Wallet client not initialized');
+      return null;
+    }
+
+    try {
+      setTxStatus('Using smart account client for transaction...');
+      console.log('💰 Using smart account client directly for NON-SPONSORED transaction');
+
+      // Use the smart account client for the transaction
+      const hash = await walletClient.sendTransaction({
+        to: call.to,
+        value: call.value,
+        data: call.data,
+        account: walletClient.account as Account,
+        chain: MONAD_CHAIN,
+      });
+
+      setTxHash(hash);
+      setTxStatus('Waiting for transaction confirmation...');
+
+      // Wait for the transaction receipt
+      const receipt = await publicClient.waitForTransactionReceipt({
+        hash: hash,
+      });
+
+      setTxStatus(`Transaction confirmed! Transaction hash: ${receipt.transactionHash}`);
+      return receipt.transactionHash;
     } catch (error) {
       handleTransactionError(error, setTxStatus);
       return null;
@@ -140,9 +264,45 @@ export function useTransactions(walletManager: WalletManagerState): Transactions
 
   // Send a transaction sponsored by the paymaster
   const sendSponsoredTransaction = async (to: string, amount: string) => {
+    logger.debug('Recipient address received', to);
+
+    if (!smartAccount) {
+      setSponsoredTxStatus('Smart account not initialized');
+      return null;
+    }
+
+    // Check if recipient address is valid - if not, use smart account address as fallback
+    let targetAddress: Address;
+    if (to && isAddress(to)) {
+      targetAddress = to as Address;
+      logger.debug('Using provided recipient address', targetAddress);
+    } else {
+      targetAddress = smartAccount.address;
+      logger.warn(
+        'Invalid or empty recipient address, using smart account address as fallback',
+        targetAddress
+      );
+    }
+
+    // Convert amount from ETH to wei
+    let amountWei: bigint;
     try {
-      logger.info('Starting sponsored transaction flow');
-      logger.debug('Recipient address received', to);
+      amountWei = parseEther(amount);
+      logger.debug('Amount in wei', amountWei.toString());
+    } catch (error) {
+      logger.error('Invalid amount', amount);
+      setSponsoredTxStatus('Invalid amount');
+      return null;
+    }
+
+    return sendSponsoredCalls([{ to: targetAddress, value: amountWei, data: '0x' }]);
+  };
+
+  // Send a batch of calls as one UserOperation sponsored by the paymaster. `validity` asks the
+  // paymaster for a signature valid in that window (unix seconds), for delayed submissions.
+  const sendSponsoredCalls = async (calls: TransactionCall[], validity?: ValidityWindowContext) => {
+    try {
+      logger.info(`Starting sponsored transaction flow with ${calls.length} call(s)`);
       setSponsoredTxStatus('Preparing transaction...');
 
       // Validate inputs
@@ -152,42 +312,20 @@ export function useTransactions(walletManager: WalletManagerState): Transactions
         return null;
       }
 
-      // Default gas limit values from demo script
-      const paymasterVerificationGasLimit = 75000n;
-      const paymasterPostOpGasLimit = 120000n;
-
-      // Check if recipient address is valid - if not, use smart account address as fallback
-      let targetAddress: Address;
-      if (to && isAddress(to)) {
-        targetAddress = to as Address;
-        logger.debug('Using provided recipient address', targetAddress);
-      } else {
-        targetAddress = smartAccount.address;
-        logger.warn(
-          'Invalid or empty recipient address, using smart account address as fallback',
-          targetAddress
-        );
-      }
-
-      // Convert amount from ETH to wei
-      let amountWei: bigint;
-      try {
-        amountWei = parseEther(amount);
-        logger.debug('Amount in wei', amountWei.toString());
-      } catch (error) {
-        logger.error('Invalid amount', amount);
-        setSponsoredTxStatus('Invalid amount');
+      if (calls.length === 0) {
+        setSponsoredTxStatus('No calls to send');
         return null;
       }
 
-      // Get gas prices from the bundler
-      logger.info('Getting gas prices...');
-      setSponsoredTxStatus('Getting gas prices...');
+      // Prepare the operation with fresh gas prices and paymaster data, then sign it
+      const prepareAndSign = async () => {
+        // Get gas prices from the bundler
+        logger.info('Getting gas prices...');
+        setSponsoredTxStatus('Getting gas prices...');
 
-      const gasPrice = await bundlerWithPaymaster.getUserOperationGasPrice();
-      logger.gasPrice('Gas prices received', gasPrice);
+        const gasPrice = await bundlerWithPaymaster.getUserOperationGasPrice();
+        logger.gasPrice('Gas prices received', gasPrice);
 
-      try {
         // STEP 1: Prepare the user operation
         logger.info('Preparing and signing user operation...');
         setSponsoredTxStatus('Preparing and signing user operation...');
@@ -195,21 +333,14 @@ export function useTransactions(walletManager: WalletManagerState): Transactions
         // First create the user operation but don't send it
         const userOperation = await bundlerWithPaymaster.prepareUserOperation({
           account: smartAccount,
-          calls: [
-            {
-              to: targetAddress,
-              value: amountWei,
-              data: '0x' as Hex,
-            },
-          ],
+          // The account encodes several calls as one batch (MultiSend on Safe, executeBatch otherwise)
+          calls,
           maxFeePerGas: gasPrice.standard.maxFeePerGas,
           maxPriorityFeePerGas: gasPrice.standard.maxPriorityFeePerGas,
-          paymasterVerificationGasLimit,
-          paymasterPostOpGasLimit,
-          // Add explicit gas limits to ensure they're not set to zero
-          callGasLimit: 100000n, // Explicit reasonable default
-          verificationGasLimit: 300000n, // Explicit reasonable default
-          preVerificationGas: 210000n, // Explicit reasonable default
+          // Gas limits come from the paymaster stub data and the bundler's estimate
+          // EIP-7702 accounts delegate the embedded wallet with their first operation
+          authorization: await getAuthorization(),
+          paymasterContext: validity,
         });
 
         // Simplified logging - just essentials
@@ -217,7 +348,7 @@ export function useTransactions(walletManager: WalletManagerState): Transactions
 
         // STEP 2: Explicitly sign the user operation
         logger.info('Signing the user operation...');
-        const signature = await smartAccount.signUserOperation(userOperation);
+        const signature = await smartAccount.signUserOperation(userOperation as UserOperation);
 
         // Update the signature in the user operation
         userOperation.signature = signature;
@@ -226,31 +357,44 @@ export function useTransactions(walletManager: WalletManagerState): Transactions
           signatureLength: signature.length,
         });
 
-        // Create a plain object copy instead of using structuredClone which can't handle functions
-        // This ensures we only include serializable properties
-        const finalUserOp = {
-          sender: userOperation.sender,
-          nonce: userOperation.nonce,
-          callGasLimit: userOperation.callGasLimit || 100000n,
-          verificationGasLimit: userOperation.verificationGasLimit || 300000n,
-          preVerificationGas: userOperation.preVerificationGas || 210000n,
-          maxFeePerGas: userOperation.maxFeePerGas,
-          maxPriorityFeePerGas: userOperation.maxPriorityFeePerGas,
-          signature: userOperation.signature,
-          callData: userOperation.callData,
-          paymasterVerificationGasLimit: userOperation.paymasterVerificationGasLimit,
-          paymasterPostOpGasLimit: userOperation.paymasterPostOpGasLimit,
-          // Include EntryPoint version specific fields
-          ...('paymaster' in userOperation && userOperation.paymaster
-            ? { paymaster: userOperation.paymaster }
-            : {}),
-          ...('paymasterData' in userOperation && userOperation.paymasterData
-            ? { paymasterData: userOperation.paymasterData }
-            : {}),
-          ...('paymasterAndData' in userOperation && userOperation.paymasterAndData
-            ? { paymasterAndData: userOperation.paymasterAndData }
-            : {}),
-        };
+        return toFinalUserOperation(userOperation);
+      };
+
+      try {
+        let finalUserOp = await prepareAndSign();
+
+        // The paymaster only signs for a window - wait for its start and re-prepare the
+        // operation when the signature expired before it could be submitted
+        for (let refreshes = 0; ; refreshes++) {
+          const signatureWindow = getUserOperationValidity(finalUserOp);
+          const now = Math.floor(Date.now() / 1000);
+          if (
+            !signatureWindow ||
+            Number(signatureWindow.validUntil) > now + PAYMASTER_EXPIRY_MARGIN_SECONDS
+          ) {
+            if (signatureWindow && Number(signatureWindow.validAfter) > now) {
+              logger.info('Waiting for the paymaster signature to become valid', signatureWindow);
+              setSponsoredTxStatus(
+                `Waiting until ${new Date(Number(signatureWindow.validAfter) * 1000).toLocaleString()} to submit...`
+              );
+              await new Promise(resolve =>
+                setTimeout(resolve, (Number(signatureWindow.validAfter) - now) * 1000)
+              );
+              continue;
+            }
+            break;
+          }
+
+          if (refreshes >= MAX_PAYMASTER_REFRESHES) {
+            throw new Error('The paymaster signature expired before the operation was submitted');
+          }
+          logger.warn(
+            'Paymaster signature expired, requesting fresh paymaster data',
+            signatureWindow
+          );
+          setSponsoredTxStatus('Paymaster signature expired, requesting fresh paymaster data...');
+          finalUserOp = await prepareAndSign();
+        }
 
         // STEP 3: Send the signed user operation
         logger.info('Submitting signed user operation...');
@@ -259,8 +403,9 @@ export function useTransactions(walletManager: WalletManagerState): Transactions
         // We must create a new sendUserOperation call with the account parameter
         // This is required by the API - the account is used for type checking and validation
         // but not for signing (since we already signed the operation)
-        // Cast to any first to handle type conversion safely
-        const userOpHash = await bundlerWithPaymaster.sendUserOperation(finalUserOp as any);
+        const userOpHash = await bundlerWithPaymaster.sendUserOperation(
+          finalUserOp as UserOperation
+        );
 
         logger.info('Sponsored transaction submitted with hash', userOpHash);
         setSponsoredTxHash(userOpHash);
@@ -293,7 +438,7 @@ export function useTransactions(walletManager: WalletManagerState): Transactions
         return null;
       }
     } catch (error) {
-      logger.error('Error in sendSponsoredTransaction', error);
+      logger.error('Error in sendSponsoredCalls', error);
 
       let errorMessage = 'Unknown error in transaction';
       if (error instanceof Error) {
@@ -305,6 +450,144 @@ export function useTransactions(walletManager: WalletManagerState): Transactions
     }
   };
 
+  // Transfer an ERC-20 from the smart account, with gas sponsored by the paymaster
+  const sendSponsoredTokenTransfer = async (token: Address, recipient: string, amount: string) => {
+    let call: TransactionCall;
+    try {
+      setSponsoredTxStatus('Reading token details...');
+      const tokenInfo = await getTokenInfo(publicClient, token);
+      call = buildTokenTransferCall(tokenInfo, recipient, amount);
+      logger.info(`Transferring ${amount} ${tokenInfo.symbol} to ${recipient}`);
+    } catch (error) {
+      handleTransactionError(error, setSponsoredTxStatus);
+      return null;
+    }
+
+    return sendSponsoredCalls([call]);
+  };
+
+  // Send a batch of calls whose gas the smart account pays in an ERC-20 through the token paymaster.
+  // An approval for the quoted cost is added in front of the calls, and `confirmCost` sees the
+  // signed token cost before the account signs.
+  async function sendTokenPaidCalls(
+    calls: TransactionCall[],
+    token: Address,
+    confirmCost: (cost: TokenGasCost) => boolean | Promise<boolean>
+  ): Promise<TransactionResult | null> {
+    if (!smartAccount || !bundlerWithPaymaster) {
+      setTokenPaidTxStatus('Smart account or bundler with paymaster not initialized');
+      return null;
+    }
+
+    // The token paymaster is deployed on the v0.7 EntryPoint only
+    if (!TOKEN_PAYMASTER_ADDRESS || smartAccount.entryPoint.version !== '0.7') {
+      setTokenPaidTxStatus('Paying gas in tokens needs a token paymaster and EntryPoint v0.7');
+      return null;
+    }
+
+    try {
+      setTokenPaidTxStatus('Fetching token quote...');
+      const { paymaster, quotes } = await fetchTokenQuotes(smartAccount.entryPoint.address);
+      const quote = quotes.find(candidate => isAddressEqual(candidate.token, token));
+      if (!quote) {
+        throw new Error('The token paymaster does not accept this token');
+      }
+
+      const tokenInfo = await getTokenInfo(publicClient, token);
+      const balance = await publicClient.readContract({
+        address: token,
+        abi: erc20Abi,
+        functionName: 'balanceOf',
+        args: [smartAccount.address],
+      });
+
+      const gasPrice = await bundlerWithPaymaster.getUserOperationGasPrice();
+      const paymasterContext = { token };
+
+      // STEP 1: Estimate gas with an approval of the whole balance - an approval of any amount
+      // encodes to the same size, so the gas matches the final operation
+      setTokenPaidTxStatus('Estimating gas cost in tokens...');
+      const estimate = await bundlerWithPaymaster.estimateUserOperationGas({
+        account: smartAccount,
+        calls: [buildTokenApprovalCall(token, paymaster, balance), ...calls],
+        maxFeePerGas: gasPrice.standard.maxFeePerGas,
+        maxPriorityFeePerGas: gasPrice.standard.maxPriorityFeePerGas,
+        paymasterContext,
+      });
+      const approval = applyGasMargin(
+        getTokenCost(
+          getUserOperationMaxGasCost({
+            ...estimate,
+            maxFeePerGas: gasPrice.standard.maxFeePerGas,
+          } as UserOperation),
+          quote.exchangeRate
+        ),
+        DEFAULT_GAS_MARGIN_PERCENT
+      );
+      if (approval > balance) {
+        throw new Error(
+          `Gas costs up to ${formatUnits(approval, tokenInfo.decimals)} ${tokenInfo.symbol}, more than the balance`
+        );
+      }
+
+      // STEP 2: Prepare the final operation - the route signs a quote the approval covers
+      setTokenPaidTxStatus('Getting signed token quote...');
+      const userOperation = await bundlerWithPaymaster.prepareUserOperation({
+        account: smartAccount,
+        calls: [buildTokenApprovalCall(token, paymaster, approval), ...calls],
+        maxFeePerGas: gasPrice.standard.maxFeePerGas,
+        maxPriorityFeePerGas: gasPrice.standard.maxPriorityFeePerGas,
+        paymasterContext,
+      });
+
+      const signedQuote =
+        'paymasterData' in userOperation && userOperation.paymasterData
+          ? decodeTokenPaymasterData(userOperation.paymasterData)
+          : null;
+      if (!signedQuote) {
+        throw new Error('The paymaster did not return a token quote');
+      }
+
+      // STEP 3: Show the token cost before anything is signed
+      const confirmed = await confirmCost({
+        symbol: tokenInfo.symbol,
+        decimals: tokenInfo.decimals,
+        maxTokenCost: signedQuote.maxTokenCost,
+        approval,
+      });
+      if (!confirmed) {
+        setTokenPaidTxStatus('Transaction cancelled: token cost not accepted');
+        return null;
+      }
+
+      // STEP 4: Sign and submit
+      setTokenPaidTxStatus('Signing user operation...');
+      userOperation.signature = await smartAccount.signUserOperation(
+        userOperation as UserOperation
+      );
+
+      setTokenPaidTxStatus('Submitting signed transaction...');
+      const userOpHash = await bundlerWithPaymaster.sendUserOperation(
+        toFinalUserOperation(userOperation) as UserOperation
+      );
+      setTokenPaidTxHash(userOpHash);
+      setTokenPaidTxStatus('Transaction submitted, waiting for confirmation...');
+
+      const receipt = await bundlerWithPaymaster.waitForUserOperationReceipt({ hash: userOpHash });
+      setTokenPaidTxStatus(
+        `Token paid transaction confirmed! Transaction hash: ${receipt.receipt.transactionHash}`
+      );
+
+      return {
+        userOpHash,
+        transactionHash: receipt.receipt.transactionHash,
+      };
+    } catch (error) {
+      handleTransactionError(error, setTokenPaidTxStatus);
+      return null;
+    }
+  }
+
   // Self-sponsored transaction - updated to use bundlerWithoutPaymaster
   async function sendSelfSponsoredTransaction(recipient: string, amount: string) {
     if (!smartAccount) {
@@ -312,6 +595,31 @@ export function useTransactions(walletManager: WalletManagerState): Transactions
       return;
     }
 
+    let parsedAmount: bigint;
+    try {
+      // Parse the amount for the transaction
+      parsedAmount = parseEther(amount);
+    } catch (error) {
+      handleTransactionError(error, setSelfSponsoredTxStatus);
+      return null;
+    }
+
+    // Create recipient address - if not valid, send to self
+    const to =
+      recipient && recipient.startsWith('0x') && recipient.length === 42
+        ? (recipient as Address)
+        : smartAccount.address;
+
+    return sendSelfSponsoredCalls([{ to, value: parsedAmount, data: '0x' }]);
+  }
+
+  // Send a batch of calls as one UserOperation paid from the account's own shMON bond
+  async function sendSelfSponsoredCalls(calls: TransactionCall[]) {
+    if (!smartAccount) {
+      setSelfSponsoredTxStatus('Smart account not initialized');
+      return;
+    }
+
     if (!bundlerWithoutPaymaster) {
       setSelfSponsoredTxStatus('Bundler without paymaster not initialized');
       return;
@@ -327,18 +635,12 @@ export function useTransactions(walletManager: WalletManagerState): Transactions
       return;
     }
 
-    try {
-      setSelfSponsoredTxStatus('Preparing self-sponsored transaction...');
-
-      // Parse the amount for the transaction
-      const parsedAmount = parseEther(amount);
-
-      // Create recipient address - if not valid, send to self
-      const to =
-        recipient && recipient.startsWith('0x') && recipient.length === 42
-          ? (recipient as Address)
-          : smartAccount.address;
+    if (calls.length === 0) {
+      setSelfSponsoredTxStatus('No calls to send');
+      return null;
+    }
 
+    try {
       setSelfSponsoredTxStatus(
         'Sending self-sponsored transaction via bundler without paymaster...'
       );
@@ -350,33 +652,34 @@ export function useTransactions(walletManager: WalletManagerState): Transactions
       // Prepare the user operation using the bundler without paymaster
       const preparedUserOperation = await bundlerWithoutPaymaster.prepareUserOperation({
         account: smartAccount,
-        calls: [
-          {
-            to: to,
-            value: parsedAmount,
-          },
-        ],
+        calls,
         maxFeePerGas: gasPrice.slow.maxFeePerGas,
         maxPriorityFeePerGas: gasPrice.slow.maxPriorityFeePerGas,
+        authorization: await getAuthorization(),
       });
 
-      // First get the paymaster data - it contains BigInt values
-      const paymasterData = generateSelfSponsoredPaymasterAndData(contractAddresses.paymaster);
+      // First get the paymaster data and gas limits estimated with it - these are BigInt values
+      const paymasterFields =
+        smartAccount.entryPoint.version === '0.6'
+          ? await estimateSelfSponsoredPaymasterAndDataV06(
+              bundlerWithoutPaymaster,
+              preparedUserOperation as UserOperation<'0.6'>,
+              contractAddresses.paymaster
+            )
+          : await estimateSelfSponsoredPaymasterAndData(
+              bundlerWithoutPaymaster,
+              preparedUserOperation as UserOperation<'0.7' | '0.8'>,
+              contractAddresses.paymaster
+            );
       // Combine the prepared operation with the paymaster data
       const userOperation = {
         ...preparedUserOperation,
-        paymaster: paymasterData.paymaster,
-        paymasterData: paymasterData.paymasterData,
-        // Ensure gas limits are set from the paymaster data (these are BigInt values)
-        paymasterVerificationGasLimit: paymasterData.paymasterVerificationGasLimit,
-        paymasterPostOpGasLimit: paymasterData.paymasterPostOpGasLimit,
-        preVerificationGas: paymasterData.preVerificationGas,
-        verificationGasLimit: paymasterData.verificationGasLimit,
+        ...paymasterFields,
       };
 
       // STEP 2: Explicitly sign the user operation
       logger.info('Explicitly signing the user operation with smart account owner...');
-      const signature = await smartAccount.signUserOperation(userOperation);
+      const signature = await smartAccount.signUserOperation(userOperation as UserOperation);
 
       // Update the signature in the user operation
       userOperation.signature = signature;
@@ -414,7 +717,13 @@ export function useTransactions(walletManager: WalletManagerState): Transactions
   }
 
   // Bond MON to shMON
-  async function bondMonToShmon(amount: string = '2') {
+  // Bond MON to shMON for the smart account, paid either by the embedded EOA or by MON the smart
+  // account already holds. Bonds to the paymaster's policy unless another policy is given.
+  async function bondMonToShmon(
+    amount: string = '2',
+    source: BondSource = 'eoa',
+    targetPolicyId?: bigint
+  ) {
     if (!smartAccount) {
       setTxStatus('Smart account not initialized');
       return null;
@@ -425,52 +734,52 @@ export function useTransactions(walletManager: WalletManagerState): Transactions
       return null;
     }
 
-    if (!walletClient) {
-      setTxStatus('Wallet client not initialized');
-      return null;
-    }
-
-    if (!embeddedWallet) {
-      setTxStatus('Embedded wallet not initialized');
-      return null;
-    }
-
     try {
       setTxStatus(`Preparing to bond ${amount} MON to shMON...`);
 
       // Use provided amount instead of hardcoded value
       const bondAmount = parseEther(amount);
 
-      let policyId;
+      // Bond to the chosen policy, or to the one the Fastlane paymaster sponsors from
+      const bondPolicyId = targetPolicyId ?? policyId;
+      if (bondPolicyId === null) {
+        setTxStatus('Policy ID not available - the paymaster POLICY_ID could not be read');
+        return null;
+      }
+      logger.info(`Bonding to policy ${bondPolicyId}`);
+
+      // The smart account bonds its own MON with a sponsored UserOperation, so the EOA needs none
+      if (source === 'smart-account') {
+        const balance = await publicClient.getBalance({ address: smartAccount.address });
+        if (balance < bondAmount) {
+          setTxStatus(`Smart account holds less than ${amount} MON`);
+          return null;
+        }
+
+        setTxStatus(`Bonding ${amount} MON from the smart account...`);
+        const result = await sendSponsoredCalls([
+          buildBondCall(contractAddresses.shmonad, bondPolicyId, smartAccount.address, bondAmount),
+        ]);
+        if (!result) {
+          setTxStatus('Sponsored bond UserOperation failed - see the sponsored transaction status');
+          return null;
+        }
 
-      console.log('🔍 Contract addresses:', contractAddresses);
-      try {
-        // Create a proper ABI object for the POLICY_ID function
-        const properPolicyAbi = [
-          {
-            name: 'POLICY_ID',
-            type: 'function',
-            stateMutability: 'view',
-            inputs: [],
-            outputs: [{ type: 'uint256' }],
-          },
-        ] as const;
-
-        // Call the POLICY_ID function with the correct ABI
-        policyId = await publicClient.readContract({
-          address: contractAddresses?.paymaster as Address,
-          abi: properPolicyAbi,
-          functionName: 'POLICY_ID',
-        });
+        setTxStatus(
+          `Bond transaction of ${amount} MON confirmed! Transaction hash: ${result.transactionHash}`
+        );
+        refreshBondData();
+        return result;
+      }
 
-        logger.info('Policy ID retrieved successfully:', policyId);
-      } catch (error) {
-        console.log('🔍 Error getting POLICY_ID:', error);
-        logger.error('Error getting POLICY_ID with custom ABI approach:', error);
+      if (!walletClient) {
+        setTxStatus('Wallet client not initialized');
+        return null;
+      }
 
-        // Fall back to a default value
-        logger.info('Using default POLICY_ID value');
-        policyId = BigInt(4);
+      if (!embeddedWallet) {
+        setTxStatus('Embedded wallet not initialized');
+        return null;
       }
 
       // Get the EOA address (embedded wallet address) - this is what we'll bond for
@@ -488,15 +797,13 @@ export function useTransactions(walletManager: WalletManagerState): Transactions
       // Using type(uint256).max for shMonToBond tells the contract to use all the shares that were just minted
       // This solves the issue where the conversion from ETH to shMON results in slightly fewer shares than expected
       // The contract has a special case: if (shMonToBond == type(uint256).max) shMonToBond = sharesMinted;
-      const callData = encodeFunctionData({
-        abi: shmonadAbi,
-        functionName: 'depositAndBond',
-        args: [
-          policyId,
-          smartAccount.address, // Bond for the smart account, not the EOA
-          maxUint256, // type(uint256).max - use all minted shares
-        ],
-      });
+      // Bond for the smart account, not the EOA
+      const { data: callData } = buildBondCall(
+        contractAddresses.shmonad,
+        bondPolicyId,
+        smartAccount.address,
+        bondAmount
+      );
 
       setTxStatus(`Submitting transaction to bond ${amount} MON to shMON...`);
 
@@ -578,6 +885,133 @@ export function useTransactions(walletManager: WalletManagerState): Transactions
     }
   }
 
+  // Start unbonding shMON the smart account has bonded. The smart account holds the bond, so the
+  // call goes through a sponsored UserOperation. Unbonds from the paymaster's policy unless another
+  // policy is given.
+  async function unbondShmon(
+    amount: string,
+    targetPolicyId?: bigint
+  ): Promise<TransactionResult | null> {
+    const unbondPolicyId = targetPolicyId ?? policyId;
+    if (!smartAccount || !contractAddresses.shmonad || unbondPolicyId === null) {
+      setSponsoredTxStatus('Smart account, shMONAD contract or policy ID not available yet');
+      return null;
+    }
+
+    let unbondAmount: bigint;
+    try {
+      unbondAmount = parseEther(amount);
+    } catch {
+      setSponsoredTxStatus('Invalid amount');
+      return null;
+    }
+    // The bond under another policy is not part of the wallet state, so it is read here
+    const bonded =
+      unbondPolicyId === policyId
+        ? BigInt(bondedShmon)
+        : await getBondedBalance(
+            publicClient,
+            contractAddresses.shmonad,
+            unbondPolicyId,
+            smartAccount.address
+          );
+    if (unbondAmount <= 0n || unbondAmount > bonded) {
+      setSponsoredTxStatus('Amount must be greater than zero and at most the bonded shMON');
+      return null;
+    }
+
+    logger.info(`Unbonding ${amount} shMON from policy ${unbondPolicyId}`);
+    const result = await sendSponsoredCalls([
+      buildUnbondCall(contractAddresses.shmonad, unbondPolicyId, unbondAmount),
+    ]);
+    if (result) refreshBondData();
+    return result;
+  }
+
+  // Claim shMON whose unbonding period has passed - kept as shMON, withdrawn to MON or rebonded.
+  // Claims from the paymaster's policy unless another policy is given.
+  async function claimUnbondedShmon(
+    action: ClaimAction,
+    targetPolicyId?: bigint
+  ): Promise<TransactionResult | null> {
+    const claimPolicyId = targetPolicyId ?? policyId;
+    if (!smartAccount || !contractAddresses.shmonad || claimPolicyId === null) {
+      setSponsoredTxStatus('Smart account, shMONAD contract or policy ID not available yet');
+      return null;
+    }
+
+    let unbonding = unbondingShmon;
+    if (claimPolicyId !== policyId) {
+      try {
+        unbonding = await getUnbondingState(
+          publicClient,
+          contractAddresses.shmonad,
+          claimPolicyId,
+          smartAccount.address
+        );
+      } catch (error) {
+        logger.error('Error reading unbonding shMON:', error);
+        setSponsoredTxStatus(`Could not read the unbonding shMON of policy ${claimPolicyId}`);
+        return null;
+      }
+    }
+    if (!unbonding?.claimable) {
+      setSponsoredTxStatus('No unbonded shMON is ready to claim');
+      return null;
+    }
+
+    logger.info(
+      `Claiming ${unbonding.amount} unbonded shMON from policy ${claimPolicyId} (${action})`
+    );
+    const result = await sendSponsoredCalls([
+      buildClaimCall(
+        contractAddresses.shmonad,
+        claimPolicyId,
+        smartAccount.address,
+        unbonding.amount,
+        action
+      ),
+    ]);
+    if (result) refreshBondData();
+    return result;
+  }
+
+  // Configure the contract to keep the smart account's bond topped up from its unbonded shMON. A
+  // minimum of zero turns the top-up off.
+  async function configureBondTopUp(settings: TopUpSettings): Promise<TransactionResult | null> {
+    if (!contractAddresses.shmonad || policyId === null) {
+      setSponsoredTxStatus('shMONAD contract or policy ID not available yet');
+      return null;
+    }
+
+    let config;
+    try {
+      config = {
+        minBonded: parseEther(settings.minBonded),
+        maxTopUpPerPeriod: parseEther(settings.maxTopUpPerPeriod),
+        topUpPeriodDuration: Number(settings.topUpPeriodDuration),
+      };
+    } catch {
+      setSponsoredTxStatus('Invalid top-up amount');
+      return null;
+    }
+    if (
+      !Number.isInteger(config.topUpPeriodDuration) ||
+      config.topUpPeriodDuration < 0 ||
+      config.topUpPeriodDuration > 0xffffffff
+    ) {
+      setSponsoredTxStatus('Top-up period must be a whole number of blocks');
+      return null;
+    }
+
+    logger.info('Setting bond top-up', serializeBigInt(config));
+    const result = await sendSponsoredCalls([
+      buildSetTopUpCall(contractAddresses.shmonad, policyId, config),
+    ]);
+    if (result) refreshBondData();
+    return result;
+  }
+
   // Return combined state and functions
   return {
     // State
@@ -587,12 +1021,22 @@ export function useTransactions(walletManager: WalletManagerState): Transactions
     sponsoredTxStatus,
     selfSponsoredTxHash,
     selfSponsoredTxStatus,
+    tokenPaidTxHash,
+    tokenPaidTxStatus,
 
     // Functions
     sendTransaction,
+    sendEoaCall,
     sendSponsoredTransaction,
+    sendSponsoredCalls,
+    sendSponsoredTokenTransfer,
     sendSelfSponsoredTransaction,
+    sendSelfSponsoredCalls,
+    sendTokenPaidCalls,
     bondMonToShmon,
+    unbondShmon,
+    claimUnbondedShmon,
+    configureBondTopUp,
     setTxStatus,
   };
 }
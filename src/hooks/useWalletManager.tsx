@@ -1,13 +1,26 @@
 import { useState, useEffect } from 'react';
-import { usePrivy, useWallets, useCreateWallet, ConnectedWallet } from '@privy-io/react-auth';
+import {
+  usePrivy,
+  useWallets,
+  useCreateWallet,
+  useSign7702Authorization,
+  toViemAccount,
+  ConnectedWallet,
+} from '@privy-io/react-auth';
 import { initShBundler, initBasicBundler, type ShBundler } from '@/utils/bundler';
 import {
   publicClient,
-  ENTRY_POINT_ADDRESS,
+  ENTRY_POINT,
+  ENTRY_POINT_V08,
   ADDRESS_HUB,
   MONAD_CHAIN,
   RPC_URL,
   SHBUNDLER_URL,
+  PAYMASTER_ADDRESS,
+  PAYMASTER_V08_ADDRESS,
+  DEFAULT_ACCOUNT_MODE,
+  TOKEN_ADDRESSES,
+  type AccountMode,
 } from '@/utils/config';
 import {
   WalletClient,
@@ -16,20 +29,30 @@ import {
   http,
   type Address,
   type Hex,
+  type LocalAccount,
+  type SignedAuthorization,
+  concat,
   createPublicClient,
+  isAddressEqual,
   EIP1193Provider,
 } from 'viem';
-import { initContract } from '@/utils/contracts';
+import { type SmartAccount } from 'viem/account-abstraction';
+import { getPaymasterAbi, initContract } from '@/utils/contracts';
 import addressHubAbi from '@/abis/addressHub.json';
-import paymasterAbi from '@/abis/paymaster.json';
 import shmonadAbi from '@/abis/shmonad.json';
 import { createSmartAccountClient } from 'permissionless';
-import { toSafeSmartAccount } from 'permissionless/accounts';
+import { createSmartAccount } from '@/utils/accounts';
 import { createApiPaymasterClient } from '@/utils/paymasterClients';
 import { logger } from '@/utils/logger';
-
-// Define the EntryPoint address
-const entryPoint07Address = ENTRY_POINT_ADDRESS;
+import { getTokenBalances, type TokenBalance } from '@/utils/erc20';
+import {
+  estimateBondedTransactions,
+  getTopUpConfig,
+  getUnbondingState,
+  TOP_UP_LOOKBACK_BLOCKS,
+  type TopUpConfig,
+  type UnbondingState,
+} from '@/utils/shmonadBonds';
 
 // Add this function before the useWalletManager function
 async function debugPrivyProvider(provider: any) {
@@ -84,8 +107,9 @@ async function debugPrivyProvider(provider: any) {
 }
 
 export type WalletManagerState = {
+  accountMode: AccountMode;
   embeddedWallet: ConnectedWallet | null;
-  smartAccount: any | null;
+  smartAccount: SmartAccount | null;
   smartAccountClient: any | null;
   bundler: ShBundler | null;
   bundlerWithPaymaster: ShBundler | null;
@@ -98,16 +122,25 @@ export type WalletManagerState = {
   };
   walletBalance: string;
   smartAccountBalance: string;
+  tokenBalances: TokenBalance[];
   bondedShmon: string;
+  unbondingShmon: UnbondingState | null;
+  topUpConfig: TopUpConfig | null;
+  // Self-sponsored transactions the bonded shMON pays for, null without a bond
+  bondedTransactionsLeft: bigint | null;
+  policyId: bigint | null;
   paymasterDeposit: string;
+  refreshBondData: () => void;
+  getAuthorization: () => Promise<SignedAuthorization | undefined>;
 };
 
-export function useWalletManager() {
-  const { authenticated, ready, user, logout } = usePrivy();
+export function useWalletManager(accountMode: AccountMode = DEFAULT_ACCOUNT_MODE) {
+  const { authenticated, ready, user, logout, getAccessToken } = usePrivy();
   const { createWallet } = useCreateWallet();
+  const { signAuthorization } = useSign7702Authorization();
   const { wallets } = useWallets();
   const [embeddedWallet, setEmbeddedWallet] = useState<ConnectedWallet | null>(null);
-  const [smartAccount, setSmartAccount] = useState<any>(null);
+  const [smartAccount, setSmartAccount] = useState<SmartAccount | null>(null);
   const [smartAccountClient, setSmartAccountClient] = useState<any>(null);
   const [bundler, setBundler] = useState<ShBundler | null>(null);
   const [bundlerWithPaymaster, setBundlerWithPaymaster] = useState<ShBundler | null>(null);
@@ -122,7 +155,13 @@ export function useWalletManager() {
   // Balance states
   const [walletBalance, setWalletBalance] = useState<string>('0');
   const [smartAccountBalance, setSmartAccountBalance] = useState<string>('0');
+  const [tokenBalances, setTokenBalances] = useState<TokenBalance[]>([]);
   const [bondedShmon, setBondedShmon] = useState<string>('0');
+  const [unbondingShmon, setUnbondingShmon] = useState<UnbondingState | null>(null);
+  const [topUpConfig, setTopUpConfig] = useState<TopUpConfig | null>(null);
+  const [bondedTransactionsLeft, setBondedTransactionsLeft] = useState<bigint | null>(null);
+  const [policyId, setPolicyId] = useState<bigint | null>(null);
+  const [bondDataRefreshes, setBondDataRefreshes] = useState(0);
   const [paymasterDeposit, setPaymasterDeposit] = useState<string>('0');
   const [shmonadAddress, setShmonadAddress] = useState<Address | null>(null);
 
@@ -154,6 +193,10 @@ export function useWalletManager() {
 
   // Initialize smart account and bundler when embedded wallet is available
   useEffect(() => {
+    // Set once the account mode or wallet changes again. A stale run may finish after the newer
+    // one, so it must not touch the state, or the UI would send from the previous account type.
+    let cancelled = false;
+
     async function initializeAccount() {
       if (embeddedWallet) {
         try {
@@ -162,6 +205,13 @@ export function useWalletManager() {
           );
           setLoading(true);
 
+          // Drop the account of the previous mode so nothing is sent from it while switching
+          setSmartAccount(null);
+          setSmartAccountClient(null);
+          setBundler(null);
+          setBundlerWithPaymaster(null);
+          setBundlerWithoutPaymaster(null);
+
           try {
             // Get the Ethereum provider from Privy's embedded wallet
             console.log('📝 STEP 1: Getting Ethereum provider from Privy wallet...');
@@ -184,6 +234,7 @@ export function useWalletManager() {
             } else {
               console.log('✅ Provider validation successful!');
             }
+            if (cancelled) return;
 
             console.log('📝 STEP 2: Creating public client...');
             const client = createPublicClient({
@@ -204,7 +255,7 @@ export function useWalletManager() {
             setWalletClient(walletClient);
 
             console.log('📝 STEP 4: Creating smart account...');
-            // Create a Safe Smart Account instead of Simple Smart Account
+            // Create the smart account for the selected account mode
             try {
               console.log(
                 'Provider type:',
@@ -213,20 +264,17 @@ export function useWalletManager() {
                 provider ? 'exists' : 'null'
               );
 
-              // Log the parameters being passed to toSafeSmartAccount
-              console.log('🔍 toSafeSmartAccount params:', {
+              // Log the parameters being passed to createSmartAccount
+              console.log('🔍 createSmartAccount params:', {
+                accountMode,
                 client: client ? 'public client created' : 'null',
-                entryPoint: {
-                  address: entryPoint07Address,
-                  version: '0.7',
-                },
-                owners: ['provider object (EOA)'],
-                version: '1.4.1',
+                entryPoint: accountMode === '7702' ? ENTRY_POINT_V08 : ENTRY_POINT,
+                owner: 'embedded wallet (EOA)',
               });
 
               // Wrap this call in a try-catch with detailed error logging
               try {
-                console.log('📋 Calling toSafeSmartAccount...');
+                console.log('📋 Calling createSmartAccount...');
                 // Convert provider to wallet client for owners parameter
                 const accounts = await provider.request({ method: 'eth_accounts' });
                 const EOA = accounts[0] as Address;
@@ -242,29 +290,28 @@ export function useWalletManager() {
 
                 // Switch to the correct chain
                 await walletClient.switchChain({ id: MONAD_CHAIN.id });
+                if (cancelled) return;
                 // Store the wallet client for later use
                 setWalletClient(walletClient);
 
-                const safeSmartAccount = await toSafeSmartAccount({
+                // The embedded wallet owns the account - in 7702 mode it is the account itself
+                const owner = (await toViemAccount({ wallet: embeddedWallet })) as LocalAccount;
+                const smartAccountInstance = await createSmartAccount(accountMode, {
                   client,
-                  entryPoint: {
-                    address: entryPoint07Address as Address,
-                    version: '0.7',
-                  },
-                  owners: [walletClient],
-                  version: '1.4.1',
+                  owner,
                 });
+                if (cancelled) return;
 
                 console.log(
-                  '✅ STEP 4 COMPLETE: Safe Smart Account created:',
-                  safeSmartAccount.address
+                  `✅ STEP 4 COMPLETE: ${accountMode} Smart Account created:`,
+                  smartAccountInstance.address
                 );
-                setSmartAccount(safeSmartAccount);
+                setSmartAccount(smartAccountInstance);
 
                 console.log('📝 STEP 5: Creating smart account client...');
                 // Create Smart Account Client using ShBundler
                 const smartAccountClient = createSmartAccountClient({
-                  account: safeSmartAccount,
+                  account: smartAccountInstance,
                   chain: MONAD_CHAIN,
                   bundlerTransport: http(bundlerUrl),
                   // Get fee data from our ShBundler client
@@ -272,7 +319,7 @@ export function useWalletManager() {
                     estimateFeesPerGas: async () => {
                       console.log('Estimating gas fees through user operation...');
                       // Create a temporary bundler to get gas prices
-                      const tempBundler = initBasicBundler(safeSmartAccount, client);
+                      const tempBundler = initBasicBundler(smartAccountInstance, client);
                       const gasPrice = await tempBundler.getUserOperationGasPrice();
                       return gasPrice.fast;
                     },
@@ -295,8 +342,19 @@ export function useWalletManager() {
                   console.log(
                     'Initialized Address Hub contract, getting paymaster and shmonad addresses...'
                   );
-                  const paymaster = (await addressHubContract.read.paymaster4337([])) as Address;
+                  // The hub only lists the v0.7 paymaster, so a configured address takes precedence
+                  const paymaster =
+                    accountMode === '7702'
+                      ? PAYMASTER_V08_ADDRESS
+                      : (PAYMASTER_ADDRESS ??
+                        ((await addressHubContract.read.paymaster4337([])) as Address));
+                  if (!paymaster) {
+                    throw new Error(
+                      'NEXT_PUBLIC_PAYMASTER_V08_ADDRESS must be set to sponsor EIP-7702 accounts'
+                    );
+                  }
                   const shmonad = (await addressHubContract.read.shMonad([])) as Address;
+                  if (cancelled) return;
 
                   console.log('✅ STEP 6 COMPLETE: Contract addresses fetched:', {
                     paymaster,
@@ -311,11 +369,11 @@ export function useWalletManager() {
                   console.log('📝 STEP 7: Creating paymaster client via RPC endpoint...');
                   try {
                     // Use the RPC-based paymaster client
-                    const paymasterClient = createApiPaymasterClient();
+                    const paymasterClient = createApiPaymasterClient(getAccessToken);
 
                     console.log('📝 STEP 7B: Initializing bundler with paymaster...');
                     const bundlerWithPaymasterInstance = initShBundler(
-                      safeSmartAccount,
+                      smartAccountInstance,
                       client,
                       paymasterClient,
                       'sponsor'
@@ -326,7 +384,7 @@ export function useWalletManager() {
                       '📝 STEP 7C: Initializing bundler without paymaster for self-sponsored transactions...'
                     );
                     const bundlerWithoutPaymasterInstance = initBasicBundler(
-                      safeSmartAccount,
+                      smartAccountInstance,
                       client
                     );
 
@@ -342,21 +400,22 @@ export function useWalletManager() {
                     console.error('❌ Error setting up paymaster:', paymasterError);
                     console.log('⚠️ Falling back to bundler without paymaster');
                     // Fall back to the regular bundler without paymaster
-                    const regularBundler = initBasicBundler(safeSmartAccount, client);
+                    const regularBundler = initBasicBundler(smartAccountInstance, client);
                     setBundlerWithoutPaymaster(regularBundler);
                     setBundler(regularBundler);
                   }
 
                   console.log('🎉 INITIALIZATION COMPLETE: Account setup finished successfully');
                 } catch (error) {
+                  if (cancelled) return;
                   console.error('❌ STEP 6/7 FAILED: Error getting contract addresses:', error);
                   console.log('⚠️ Falling back to regular bundler');
                   // Fall back to regular bundler without paymaster integration
-                  const regularBundler = initBasicBundler(safeSmartAccount, client);
+                  const regularBundler = initBasicBundler(smartAccountInstance, client);
                   setBundler(regularBundler);
                 }
               } catch (safeAccountCreationError) {
-                console.error('💥 ERROR IN toSafeSmartAccount:', safeAccountCreationError);
+                console.error('💥 ERROR CREATING SMART ACCOUNT:', safeAccountCreationError);
                 console.error(
                   'Detailed error:',
                   safeAccountCreationError instanceof Error
@@ -370,7 +429,7 @@ export function useWalletManager() {
                 throw safeAccountCreationError; // Re-throw to be caught by the outer try-catch
               }
             } catch (safeAccountError) {
-              console.error('❌ STEP 4 FAILED: Error creating Safe account:', safeAccountError);
+              console.error('❌ STEP 4 FAILED: Error creating smart account:', safeAccountError);
               console.error(
                 'Error details:',
                 safeAccountError instanceof Error
@@ -383,17 +442,17 @@ export function useWalletManager() {
               );
             }
 
-            setLoading(false);
+            if (!cancelled) setLoading(false);
           } catch (error) {
             console.error(
               '❌ OUTER INITIALIZATION FAILED: Error initializing smart account:',
               error
             );
-            setLoading(false);
+            if (!cancelled) setLoading(false);
           }
         } catch (error) {
           console.error('❌ OUTER INITIALIZATION FAILED: Error initializing smart account:', error);
-          setLoading(false);
+          if (!cancelled) setLoading(false);
         }
       } else {
         console.log('⏳ Waiting for embedded wallet before initialization...');
@@ -405,7 +464,11 @@ export function useWalletManager() {
       console.log('🔄 Embedded wallet detected, starting initialization...');
       initializeAccount();
     }
-  }, [embeddedWallet]);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [embeddedWallet, accountMode]);
 
   // Fetch balances when accounts are available
   useEffect(() => {
@@ -426,6 +489,17 @@ export function useWalletManager() {
           });
           setSmartAccountBalance(saBalance.toString());
           console.log('Smart Account balance:', saBalance.toString());
+
+          // Get the Smart Account's ERC-20 balances - shMON first, then the configured tokens
+          const tokens = contractAddresses.shmonad
+            ? [
+                contractAddresses.shmonad,
+                ...TOKEN_ADDRESSES.filter(
+                  token => !isAddressEqual(token, contractAddresses.shmonad)
+                ),
+              ]
+            : TOKEN_ADDRESSES;
+          setTokenBalances(await getTokenBalances(publicClient, tokens, smartAccount.address));
         } catch (error) {
           console.error('Error fetching balances:', error);
         }
@@ -437,7 +511,7 @@ export function useWalletManager() {
     const interval = setInterval(fetchBalances, 30000); // refresh every 30 seconds
 
     return () => clearInterval(interval);
-  }, [embeddedWallet, smartAccount]);
+  }, [embeddedWallet, smartAccount, contractAddresses.shmonad]);
 
   // Fetch additional data about shmonad bonds and paymaster deposit
   useEffect(() => {
@@ -453,7 +527,7 @@ export function useWalletManager() {
           // Initialize shmonad and paymaster contracts
           const paymasterContract = await initContract(
             contractAddresses.paymaster,
-            paymasterAbi,
+            getPaymasterAbi(smartAccount.entryPoint.version),
             publicClient
           );
 
@@ -468,6 +542,7 @@ export function useWalletManager() {
           // Get policy ID from paymaster
           try {
             const policyId = (await paymasterContract.read.POLICY_ID([])) as bigint;
+            setPolicyId(policyId);
 
             // Get paymaster deposit
             try {
@@ -479,6 +554,7 @@ export function useWalletManager() {
             }
 
             // Get smart account bonded amount to shmonad
+            let bondedAmount = 0n;
             try {
               // Check if the function exists before calling
               if (typeof shMonadContract.read.balanceOfBonded !== 'function') {
@@ -489,7 +565,7 @@ export function useWalletManager() {
 
               // Handle expected contract revert for accounts with no bonds
               try {
-                const bondedAmount = (await shMonadContract.read.balanceOfBonded([
+                bondedAmount = (await shMonadContract.read.balanceOfBonded([
                   policyId,
                   smartAccount.address,
                 ])) as bigint;
@@ -503,6 +579,46 @@ export function useWalletManager() {
               console.warn('Unexpected error checking bonded tokens');
               setBondedShmon('0');
             }
+
+            // Get any shMON the smart account is unbonding
+            try {
+              setUnbondingShmon(
+                await getUnbondingState(
+                  publicClient,
+                  contractAddresses.shmonad,
+                  policyId,
+                  smartAccount.address
+                )
+              );
+            } catch (unbondingError) {
+              console.warn('Error fetching unbonding shMON');
+              setUnbondingShmon(null);
+            }
+
+            // Get the automatic top-up settings and how long the bond lasts at current gas prices
+            try {
+              const currentBlock = await publicClient.getBlockNumber();
+              setTopUpConfig(
+                await getTopUpConfig(
+                  publicClient,
+                  contractAddresses.shmonad,
+                  policyId,
+                  smartAccount.address,
+                  currentBlock > TOP_UP_LOOKBACK_BLOCKS ? currentBlock - TOP_UP_LOOKBACK_BLOCKS : 0n
+                )
+              );
+              setBondedTransactionsLeft(
+                bondedAmount > 0n
+                  ? await estimateBondedTransactions(
+                      publicClient,
+                      contractAddresses.shmonad,
+                      bondedAmount
+                    )
+                  : null
+              );
+            } catch (topUpError) {
+              console.warn('Error fetching bond top-up data');
+            }
           } catch (policyError) {
             console.warn('Error fetching policy ID');
           }
@@ -517,9 +633,51 @@ export function useWalletManager() {
     const interval = setInterval(fetchExtendedData, 60000); // refresh every minute
 
     return () => clearInterval(interval);
-  }, [embeddedWallet, smartAccount, contractAddresses, walletClient]);
+  }, [embeddedWallet, smartAccount, contractAddresses, walletClient, bondDataRefreshes]);
+
+  // Re-read bond data right away, e.g. after an unbond or claim
+  const refreshBondData = () => setBondDataRefreshes(count => count + 1);
+
+  /**
+   * Sign the EIP-7702 authorization that delegates the embedded wallet to Simple7702Account, for
+   * the first UserOperation of a 7702 account. Undefined once the delegation is in place.
+   */
+  async function getAuthorization(): Promise<SignedAuthorization | undefined> {
+    if (accountMode !== '7702' || !embeddedWallet || !smartAccount?.authorization) {
+      return undefined;
+    }
+
+    const eoaAddress = embeddedWallet.address as Address;
+    const implementation = smartAccount.authorization.address as Address;
+
+    // A delegated EOA carries the 0xef0100 designator followed by the implementation address
+    const code = await publicClient.getCode({ address: eoaAddress });
+    if (code?.toLowerCase() === concat(['0xef0100', implementation]).toLowerCase()) {
+      return undefined;
+    }
+
+    const nonce = await publicClient.getTransactionCount({
+      address: eoaAddress,
+      blockTag: 'pending',
+    });
+    console.log('✍️ Signing EIP-7702 authorization for', implementation);
+    const signed = await signAuthorization(
+      { contractAddress: implementation, chainId: MONAD_CHAIN.id, nonce },
+      { address: eoaAddress }
+    );
+
+    return {
+      address: signed.address,
+      chainId: signed.chainId,
+      nonce: signed.nonce,
+      r: signed.r,
+      s: signed.s,
+      yParity: signed.yParity,
+    };
+  }
 
   return {
+    accountMode,
     authenticated,
     ready,
     embeddedWallet,
@@ -534,9 +692,16 @@ export function useWalletManager() {
     contractAddresses,
     walletBalance,
     smartAccountBalance,
+    tokenBalances,
     bondedShmon,
+    unbondingShmon,
+    topUpConfig,
+    bondedTransactionsLeft,
+    policyId,
     paymasterDeposit,
+    refreshBondData,
     shmonadAddress,
     logout,
+    getAuthorization,
   };
 }
@@ -0,0 +1,11 @@
+/**
+ * Runs once when a server process starts. Background jobs start here rather than when an API
+ * route is loaded, so hot reloads and route bundles never start them twice.
+ */
+export async function register() {
+  // The Edge runtime has no long-lived process to poll from
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const { startDepositPolling } = await import('./utils/depositWatcher');
+  startDepositPolling();
+}
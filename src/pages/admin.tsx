@@ -0,0 +1,76 @@
+import Head from 'next/head';
+import Link from 'next/link';
+import { usePrivy } from '@privy-io/react-auth';
+import { type Address } from 'viem';
+
+// Custom hooks
+import { useWalletManager } from '@/hooks/useWalletManager';
+import { useTransactions } from '@/hooks/useTransactions';
+
+// Components
+import PaymasterAdminConsole, { type AdminSender } from '@/components/PaymasterAdminConsole';
+import PaymasterHealth from '@/components/PaymasterHealth';
+
+import { type TransactionCall } from '@/utils/calls';
+
+export default function Admin() {
+  const { login, authenticated, ready } = usePrivy();
+
+  const walletManager = useWalletManager();
+  const { embeddedWallet, smartAccount, contractAddresses, loading } = walletManager;
+
+  const { txStatus, sponsoredTxStatus, sendEoaCall, sendSponsoredCalls } =
+    useTransactions(walletManager);
+
+  // The administrator is either the embedded wallet or the smart account
+  const handleSend = async (sender: AdminSender, call: TransactionCall) => {
+    if (sender === 'eoa') {
+      return sendEoaCall(call);
+    }
+    const result = await sendSponsoredCalls([call]);
+    return result ? result.transactionHash : null;
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100 py-6 flex flex-col">
+      <Head>
+        <title>Paymaster Operator Console</title>
+        <meta name="description" content="Administrator actions for the Fastlane paymaster" />
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <link rel="icon" href="/favicon.ico" />
+      </Head>
+
+      <div className="relative py-3 sm:max-w-3xl mx-auto w-full px-4 space-y-4">
+        <div className="flex justify-between items-center">
+          <h1 className="text-2xl font-bold text-gray-800">Paymaster Operator Console</h1>
+          <Link href="/" className="text-sm text-blue-600 hover:underline">
+            Back to demo
+          </Link>
+        </div>
+
+        <PaymasterHealth />
+
+        {!ready ? (
+          <p className="text-gray-600">Initializing...</p>
+        ) : !authenticated ? (
+          <button
+            onClick={login}
+            className="px-5 py-2 bg-gradient-to-r from-blue-500 to-blue-600 text-white rounded-lg hover:from-blue-600 hover:to-blue-700 shadow-md font-medium"
+          >
+            Connect Wallet
+          </button>
+        ) : (
+          <PaymasterAdminConsole
+            paymaster={contractAddresses.paymaster || undefined}
+            entryPoint={smartAccount?.entryPoint}
+            eoaAddress={embeddedWallet?.address as Address | undefined}
+            smartAccountAddress={smartAccount?.address}
+            onSend={handleSend}
+            loading={loading}
+            txStatuses={{ eoa: txStatus, 'smart-account': sponsoredTxStatus }}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,77 +1,416 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { paymasterMode } from '../../utils/contracts';
-import { toPackedUserOperation, UserOperation } from 'viem/account-abstraction';
-import { createWalletClient, http, type Hex, type Address, createPublicClient } from 'viem';
-import { privateKeyToAccount } from 'viem/accounts';
-import { ADDRESS_HUB } from '../../utils/config';
+import { getPaymasterAbi, paymasterMode } from '../../utils/contracts';
+import {
+  createBundlerClient,
+  formatUserOperation,
+  getUserOperationHash,
+  toPackedUserOperation,
+  type RpcUserOperation,
+  UserOperation,
+  UserOperationReceiptNotFoundError,
+} from 'viem/account-abstraction';
+import {
+  http,
+  numberToHex,
+  hexToNumber,
+  isAddress,
+  isAddressEqual,
+  type Hex,
+  type Address,
+  type SignedAuthorization,
+  erc20Abi,
+} from 'viem';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+import {
+  ADDRESS_HUB,
+  ENTRY_POINT,
+  ENTRY_POINT_V08,
+  MONAD_TESTNET_CHAIN_ID,
+  PAYMASTER_V08_ADDRESS,
+  SHBUNDLER_URL,
+  TOKEN_PAYMASTER_ADDRESS,
+  type EntryPointVersion,
+} from '../../utils/config';
 import paymasterAbi from '../../abis/paymaster.json';
 import addressHubAbi from '../../abis/addressHub.json';
 import { monadTestnet } from 'viem/chains';
-import { entryPoint07Address } from 'viem/account-abstraction';
 import { logger } from '../../utils/logger';
+import {
+  decodeAccountCalls,
+  evaluateSponsorPolicy,
+  getUserOperationMaxGasCost,
+  loadSponsorPolicy,
+} from '../../utils/sponsorPolicy';
+import {
+  createBudgetStoreFromEnv,
+  createSponsorBudgetTracker,
+  SponsorBudgetExceededError,
+} from '../../utils/sponsorBudget';
+import {
+  authenticatePrivyRequest,
+  isSessionSender,
+  PrivyAuthError,
+  type PrivySession,
+} from '../../utils/privyAuth';
+import {
+  createRateLimiter,
+  DEFAULT_RATE_LIMITS,
+  type RateLimitExceeded,
+  type RateLimitKind,
+} from '../../utils/rateLimit';
+import {
+  applyGasMargin,
+  DEFAULT_GAS_MARGIN_PERCENT,
+  DEFAULT_PAYMASTER_GAS_LIMITS,
+  simulatePaymasterGasLimits,
+  type PaymasterGasLimits,
+} from '../../utils/gasEstimation';
+import {
+  findTokenApproval,
+  getTokenCost,
+  getTokenQuoteHash,
+  parseTokenPaymasterContext,
+  type TokenQuote,
+} from '../../utils/tokenPaymaster';
+import { createTokenQuoter, loadTokenQuoterConfig } from '../../utils/tokenQuotes';
+import { createSponsorSignersFromEnv } from '../../utils/sponsorSigner';
+import { backendPublicClient, getPaymasterAddress } from '../../utils/backendClient';
+import {
+  loadValidityWindowConfig,
+  parseValidityWindowContext,
+  resolveValidityWindow,
+  type ValidityWindow,
+} from '../../utils/validityWindow';
+import { simulateUserOperation, UserOperationSimulationError } from '../../utils/userOpSimulation';
 
-// Use a backend-specific RPC URL (not prefixed with NEXT_PUBLIC_)
-const BACKEND_RPC_URL = process.env.RPC_URL || 'https://rpc.ankr.com/monad_testnet';
+// Sponsor keys: SPONSOR_SIGNERS_PATH, or the single SPONSOR_WALLET_PRIVATE_KEY
+const sponsorSigners = createSponsorSignersFromEnv();
 
-// Create backend-specific public client
-const backendPublicClient = createPublicClient({
+// Sponsorship rules checked before every signature (null when the policy file failed to load)
+const sponsorPolicy = loadSponsorPolicy();
+
+// Backend bundler client, used to look up receipts of sponsored operations
+const backendBundlerClient = createBundlerClient({
   chain: monadTestnet,
-  transport: http(BACKEND_RPC_URL),
+  transport: http(SHBUNDLER_URL),
+});
+
+// Spend caps for sponsored gas, charged after each signature
+const sponsorBudget = createSponsorBudgetTracker({
+  config: sponsorPolicy?.budgets ?? {},
+  store: createBudgetStoreFromEnv(),
+  getActualGasCost: async userOpHash => {
+    try {
+      const receipt = await backendBundlerClient.getUserOperationReceipt({ hash: userOpHash });
+      return receipt.actualGasCost;
+    } catch (error) {
+      if (error instanceof UserOperationReceiptNotFoundError) return null;
+      throw error;
+    }
+  },
 });
 
-// Create a sponsor wallet client using the private key
-const SPONSOR_PRIVATE_KEY = process.env.SPONSOR_WALLET_PRIVATE_KEY;
-if (!SPONSOR_PRIVATE_KEY) {
-  logger.error('SPONSOR_WALLET_PRIVATE_KEY environment variable is not set');
-  logger.error('This is required for the paymaster to work properly');
+// Token bucket limits per IP, Privy user and sender, with policy file overrides
+const rateLimiter = createRateLimiter({
+  config: {
+    stub: { ...DEFAULT_RATE_LIMITS.stub, ...sponsorPolicy?.rateLimits?.stub },
+    final: { ...DEFAULT_RATE_LIMITS.final, ...sponsorPolicy?.rateLimits?.final },
+  },
+});
+
+// Safety margin added on top of simulated gas limits, in percent
+const GAS_MARGIN_PERCENT = Number(
+  process.env.PAYMASTER_GAS_MARGIN_PERCENT ?? DEFAULT_GAS_MARGIN_PERCENT
+);
+if (!Number.isFinite(GAS_MARGIN_PERCENT) || GAS_MARGIN_PERCENT < 0) {
+  throw new Error('PAYMASTER_GAS_MARGIN_PERCENT must be a non-negative number');
 }
 
-const sponsorAccount = SPONSOR_PRIVATE_KEY
-  ? privateKeyToAccount(SPONSOR_PRIVATE_KEY as Hex)
-  : undefined;
+// Prices gas in ERC-20s for the token paymaster mode
+const tokenQuoter = createTokenQuoter({
+  client: backendPublicClient,
+  getShmonadAddress: () => getShmonadAddress(),
+  config: loadTokenQuoterConfig(),
+});
 
-const sponsorWallet = sponsorAccount
-  ? createWalletClient({
-      account: sponsorAccount,
-      chain: monadTestnet,
-      transport: http(BACKEND_RPC_URL),
-    })
-  : undefined;
+// Limits on the validity window a request may ask for in its context
+const validityWindowConfig = loadValidityWindowConfig();
+
+// Throwaway key for simulation-only paymaster data, so gas estimation never hands out a sponsor signature
+const simulationSigner = privateKeyToAccount(generatePrivateKey());
+
+// Simulate every operation before handing out its final paymaster data, unless turned off
+const SIMULATE_BEFORE_SIGNING = process.env.PAYMASTER_SIMULATE_BEFORE_SIGNING !== 'false';
+
+// Only trust X-Forwarded-For when the app runs behind a proxy that sets it
+const TRUST_PROXY = process.env.PAYMASTER_TRUST_PROXY === 'true';
+
+/**
+ * Helper: Client IP address used for rate limiting
+ */
+function getClientIp(req: NextApiRequest): string | undefined {
+  const forwardedFor = req.headers['x-forwarded-for'];
+  if (TRUST_PROXY && typeof forwardedFor === 'string') {
+    return forwardedFor.split(',')[0].trim();
+  }
+  return req.socket.remoteAddress;
+}
+
+type JsonRpcId = string | number | null;
+
+type JsonRpcRequest = {
+  jsonrpc: '2.0';
+  id?: JsonRpcId;
+  method: string;
+  params?: unknown;
+};
+
+/**
+ * A JSON-RPC response together with the HTTP status it gets when sent on its own
+ */
+type RpcResponse = {
+  status: number;
+  body: {
+    jsonrpc: '2.0';
+    id: JsonRpcId;
+    result?: unknown;
+    error?: { code: number; message: string; data?: unknown };
+  };
+  retryAfterSeconds?: number;
+};
 
 /**
- * Helper: Read paymaster address directly from the contract
+ * Lookups shared by every entry of one HTTP request, so a batch only does them once
  */
-async function getPaymasterAddress(): Promise<Address | null> {
-  if (!ADDRESS_HUB) {
-    logger.error('ADDRESS_HUB is not defined. Please check your environment variables.');
+type BatchContext = {
+  clientIp: string | undefined;
+  getSession: () => Promise<PrivySession>;
+  getPaymasterAddress: (entryPointVersion: EntryPointVersion) => Promise<Address | null>;
+};
+
+/**
+ * A request to pay gas in an ERC-20 through the token paymaster, at the current exchange rate
+ */
+type TokenPayment = {
+  paymasterAddress: Address;
+  token: Address;
+  exchangeRate: bigint;
+};
+
+// Upper bound on entries in one batch request
+const MAX_BATCH_SIZE = 20;
+
+// EntryPoints this route can sign for - v0.8 (EIP-7702 accounts) only once its paymaster is set
+const ENTRY_POINTS: { address: Address; version: EntryPointVersion }[] = PAYMASTER_V08_ADDRESS
+  ? [ENTRY_POINT, ENTRY_POINT_V08]
+  : [ENTRY_POINT];
+
+// Reported by pm_supportedEntryPoints
+const SUPPORTED_ENTRY_POINTS: Address[] = ENTRY_POINTS.map(entryPoint => entryPoint.address);
+
+// Methods that return a sponsor signature and count against the `final` rate limits
+const SIGNING_METHODS = ['pm_getPaymasterData', 'pm_sponsorUserOperation'];
+
+// Placeholder paymasterData returned with stub data, before the final data is signed
+const STUB_PAYMASTER_DATA = ('0x' + '00'.repeat(64)) as Hex;
+
+// v0.6 gas limits used when the bundler cannot estimate the operation
+const DEFAULT_V06_GAS_LIMITS = {
+  preVerificationGas: 0x350f7n,
+  verificationGasLimit: 0x501abn,
+  callGasLimit: 0x212dfn,
+};
+
+/**
+ * Helper: Run an async lookup at most once and share its result
+ */
+function once<T>(fn: () => Promise<T>): () => Promise<T> {
+  let result: Promise<T> | undefined;
+  return () => (result ??= fn());
+}
+
+/**
+ * Helper: Run an async lookup at most once per key and share its result
+ */
+function oncePerKey<K, T>(fn: (key: K) => Promise<T>): (key: K) => Promise<T> {
+  const results = new Map<K, Promise<T>>();
+  return key => {
+    let result = results.get(key);
+    if (!result) {
+      result = fn(key);
+      results.set(key, result);
+    }
+    return result;
+  };
+}
+
+/**
+ * Helper: Build a JSON-RPC error response
+ */
+function rpcError(
+  status: number,
+  id: JsonRpcId,
+  code: number,
+  message: string,
+  data?: unknown
+): RpcResponse {
+  return {
+    status,
+    body: {
+      jsonrpc: '2.0',
+      id,
+      error: data === undefined ? { code, message } : { code, message, data },
+    },
+  };
+}
+
+/**
+ * Helper: Respond to a throttled request with a retry-after hint
+ */
+function rateLimitedResponse(id: JsonRpcId, exceeded: RateLimitExceeded): RpcResponse {
+  logger.warn('Paymaster request rate limited', exceeded);
+  return {
+    ...rpcError(429, id, -32015, 'Rate limit exceeded', {
+      scope: exceeded.scope,
+      retryAfter: exceeded.retryAfterSeconds,
+    }),
+    retryAfterSeconds: exceeded.retryAfterSeconds,
+  };
+}
+
+/**
+ * Helper: Version of a supported EntryPoint, or null for any other address
+ */
+function getEntryPointVersion(entryPointAddress: unknown): EntryPointVersion | null {
+  if (typeof entryPointAddress !== 'string' || !isAddress(entryPointAddress)) {
     return null;
   }
+  const entryPoint = ENTRY_POINTS.find(({ address }) => isAddressEqual(address, entryPointAddress));
+  return entryPoint?.version ?? null;
+}
+
+/**
+ * Helper: Error response for an EntryPoint this route does not sign for
+ */
+function unsupportedEntryPoint(id: JsonRpcId, entryPointAddress: unknown): RpcResponse {
+  logger.warn('Rejected request for unsupported EntryPoint', entryPointAddress);
+  return rpcError(400, id, -32602, 'Unsupported EntryPoint', {
+    entryPoint: entryPointAddress,
+    supported: SUPPORTED_ENTRY_POINTS,
+  });
+}
+
+/**
+ * Helper: Whether a chainId parameter (a number, or a hex or decimal string) is the chain this
+ * route signs for
+ */
+function isConfiguredChain(chainId: unknown): boolean {
+  if (typeof chainId === 'number') return chainId === MONAD_TESTNET_CHAIN_ID;
+  if (typeof chainId !== 'string' || !/^(0x[0-9a-fA-F]+|\d+)$/.test(chainId)) return false;
+  return Number(chainId) === MONAD_TESTNET_CHAIN_ID;
+}
+
+/**
+ * Helper: Error response for a chain this route does not sign for
+ */
+function unsupportedChain(id: JsonRpcId, chainId: unknown): RpcResponse {
+  logger.warn('Rejected request for unsupported chain', chainId);
+  return rpcError(400, id, -32602, 'Unsupported chainId', {
+    chainId,
+    supported: MONAD_TESTNET_CHAIN_ID,
+  });
+}
+
+let shmonadAddress: Address | null = null;
+
+/**
+ * Helper: Read the shMonad address from the AddressHub, caching it once found
+ */
+async function getShmonadAddress(): Promise<Address | null> {
+  if (shmonadAddress) return shmonadAddress;
+  if (!ADDRESS_HUB) return null;
 
   try {
-    const paymasterAddress = (await backendPublicClient.readContract({
+    shmonadAddress = (await backendPublicClient.readContract({
       address: ADDRESS_HUB,
       abi: addressHubAbi,
-      functionName: 'paymaster4337',
+      functionName: 'shMonad',
       args: [],
     })) as Address;
-
-    if (!paymasterAddress || paymasterAddress === '0x0000000000000000000000000000000000000000') {
-      logger.error('Invalid paymaster address read from contract');
-      return null;
-    }
-
-    return paymasterAddress;
+    return shmonadAddress;
   } catch (error) {
-    logger.error('Error reading paymaster address:', error);
+    logger.error('Error reading shMonad address:', error);
     return null;
   }
 }
 
+/**
+ * Helper: UserOperation in the shape the paymaster's getHash expects - packed for v0.7 and v0.8,
+ * the plain struct for v0.6
+ */
+function toPaymasterHashInput(
+  rpcUserOperation: RpcUserOperation,
+  entryPointVersion: EntryPointVersion
+) {
+  const userOperation = formatUserOperation(rpcUserOperation);
+  if (entryPointVersion !== '0.6') {
+    return toPackedUserOperation(userOperation);
+  }
+
+  return {
+    sender: userOperation.sender,
+    nonce: userOperation.nonce,
+    initCode: userOperation.initCode ?? '0x',
+    callData: userOperation.callData,
+    callGasLimit: userOperation.callGasLimit,
+    verificationGasLimit: userOperation.verificationGasLimit,
+    preVerificationGas: userOperation.preVerificationGas,
+    maxFeePerGas: userOperation.maxFeePerGas,
+    maxPriorityFeePerGas: userOperation.maxPriorityFeePerGas,
+    paymasterAndData: userOperation.paymasterAndData ?? '0x',
+    signature: userOperation.signature,
+  };
+}
+
+/**
+ * Helper: EIP-7702 authorization sent with a v0.8 UserOperation, which formatUserOperation drops.
+ * The EntryPoint hashes the operation with the delegate it names in place of the initCode marker.
+ */
+function getUserOperationAuthorization(
+  rpcUserOperation: RpcUserOperation
+): SignedAuthorization | undefined {
+  const authorization = rpcUserOperation.eip7702Auth;
+  if (!authorization) {
+    return undefined;
+  }
+
+  return {
+    address: authorization.address,
+    chainId: hexToNumber(authorization.chainId),
+    nonce: hexToNumber(authorization.nonce),
+    r: authorization.r,
+    s: authorization.s,
+    yParity: hexToNumber(authorization.yParity),
+  };
+}
+
+/**
+ * Helper: Format an RPC UserOperation, keeping the EIP-7702 authorization formatUserOperation drops
+ */
+function toUserOperation(rpcUserOperation: RpcUserOperation): UserOperation {
+  return {
+    ...formatUserOperation(rpcUserOperation),
+    authorization: getUserOperationAuthorization(rpcUserOperation),
+  };
+}
+
 /**
  * Helper: Generate and sign paymaster data for a user operation
  */
 async function signUserOperationWithSponsor(
-  userOperation: UserOperation,
+  userOperation: RpcUserOperation,
+  entryPointVersion: EntryPointVersion,
+  paymasterAddress: Address | null,
   validUntil: bigint,
   validAfter: bigint
 ): Promise<{
@@ -80,49 +419,46 @@ async function signUserOperationWithSponsor(
   paymasterData: Hex;
 } | null> {
   try {
-    // Get paymaster address
-    const paymasterAddress = await getPaymasterAddress();
     if (!paymasterAddress) {
       logger.error('No paymaster address available for signing');
       return null;
     }
 
-    // Validate sponsor wallet
-    if (!sponsorWallet || !sponsorAccount) {
-      logger.error('No sponsor wallet available');
+    // Each sender is signed for by one of the active sponsor keys
+    const signer = sponsorSigners.getSigner(userOperation.sender);
+    if (!signer) {
+      logger.error('No active sponsor key available');
       return null;
     }
 
     // Get hash to sign directly from the contract
     const hash = (await backendPublicClient.readContract({
       address: paymasterAddress,
-      abi: paymasterAbi,
+      abi: getPaymasterAbi(entryPointVersion),
       functionName: 'getHash',
-      args: [toPackedUserOperation(userOperation), validUntil, validAfter],
+      args: [toPaymasterHashInput(userOperation, entryPointVersion), validUntil, validAfter],
     })) as Hex;
 
     if (!hash) {
       throw new Error(`Invalid hash returned from paymaster contract ${paymasterAddress}`);
     }
 
-    // Sign hash with sponsor wallet
-    const signature = await sponsorWallet.signMessage({
-      account: sponsorAccount,
-      message: { raw: hash },
-    });
+    // Sign hash with the sponsor key
+    const signature = await signer.signHash(hash);
 
     logger.info('Generated signature for user operation', {
       sender: userOperation.sender,
+      keyId: signer.id,
       signature: signature.substring(0, 10) + '...',
     });
 
-    // Create paymaster data with the signature
+    // Create paymaster data with the signature - the key's address pays
     const paymasterData = paymasterMode(
       'sponsor',
       validUntil,
       validAfter,
       signature as Hex,
-      sponsorWallet
+      signer.address
     ) as Hex;
 
     return {
@@ -136,6 +472,145 @@ async function signUserOperationWithSponsor(
   }
 }
 
+/**
+ * Helper: Sign a token quote for a user operation. The sponsor signs the token paymaster's hash of
+ * the operation bound to the quote, the same way it signs sponsorship.
+ */
+async function signUserOperationWithTokenQuote(
+  userOperation: RpcUserOperation,
+  paymasterAddress: Address,
+  tokenQuote: TokenQuote,
+  validUntil: bigint,
+  validAfter: bigint
+): Promise<{ paymasterAddress: Address; paymasterData: Hex } | null> {
+  try {
+    const signer = sponsorSigners.getSigner(userOperation.sender);
+    if (!signer) {
+      logger.error('No active sponsor key available');
+      return null;
+    }
+
+    const paymasterHash = (await backendPublicClient.readContract({
+      address: paymasterAddress,
+      abi: paymasterAbi,
+      functionName: 'getHash',
+      args: [toPaymasterHashInput(userOperation, '0.7'), validUntil, validAfter],
+    })) as Hex;
+
+    const signature = await signer.signHash(getTokenQuoteHash(paymasterHash, tokenQuote));
+
+    logger.info('Generated token quote signature for user operation', {
+      sender: userOperation.sender,
+      keyId: signer.id,
+      token: tokenQuote.token,
+      maxTokenCost: tokenQuote.maxTokenCost.toString(),
+    });
+
+    return {
+      paymasterAddress,
+      paymasterData: paymasterMode(
+        'token',
+        validUntil,
+        validAfter,
+        signature,
+        undefined,
+        tokenQuote
+      ) as Hex,
+    };
+  } catch (error) {
+    logger.error('Failed to sign token quote:', error);
+    return null;
+  }
+}
+
+/**
+ * Helper: Paymaster data with a well-formed but throwaway signature, used only for simulation
+ */
+async function getSimulationPaymasterData(
+  paymasterAddress: Address,
+  userOperation: UserOperation,
+  tokenPayment?: TokenPayment
+): Promise<Hex> {
+  const validUntil = BigInt(Math.floor(Date.now() / 1000)) + BigInt(3600);
+  const validAfter = BigInt(0);
+
+  const hash = (await backendPublicClient.readContract({
+    address: paymasterAddress,
+    abi: paymasterAbi,
+    functionName: 'getHash',
+    args: [toPackedUserOperation(userOperation), validUntil, validAfter],
+  })) as Hex;
+
+  if (tokenPayment) {
+    const tokenQuote = getTokenQuote(userOperation, tokenPayment);
+    const signature = await simulationSigner.signMessage({
+      message: { raw: getTokenQuoteHash(hash, tokenQuote) },
+    });
+    return paymasterMode('token', validUntil, validAfter, signature, undefined, tokenQuote) as Hex;
+  }
+
+  const signature = await simulationSigner.signMessage({ message: { raw: hash } });
+  // Simulate with the payor the operation will be signed for, so its bond is checked
+  const payor = sponsorSigners.getSigner(userOperation.sender)?.address ?? simulationSigner.address;
+  return paymasterMode('sponsor', validUntil, validAfter, signature, payor) as Hex;
+}
+
+/**
+ * Helper: Simulate the paymaster gas limits of an EntryPoint v0.7 or v0.8 operation, falling back
+ * to the defaults when simulation fails
+ */
+async function estimatePaymasterGasLimits(
+  paymasterAddress: Address,
+  entryPointAddress: Address,
+  entryPointVersion: '0.7' | '0.8',
+  userOperation: RpcUserOperation<'0.7' | '0.8'>,
+  tokenPayment?: TokenPayment
+): Promise<PaymasterGasLimits> {
+  try {
+    return await simulatePaymasterGasLimits({
+      client: backendPublicClient,
+      entryPointAddress,
+      entryPointVersion,
+      paymasterAddress,
+      userOperation: toUserOperation(userOperation) as UserOperation<'0.7'>,
+      getPaymasterData: operation =>
+        getSimulationPaymasterData(paymasterAddress, operation, tokenPayment),
+      marginPercent: GAS_MARGIN_PERCENT,
+    });
+  } catch (error) {
+    logger.warn('Paymaster gas simulation failed, using default limits:', (error as Error).message);
+    return DEFAULT_PAYMASTER_GAS_LIMITS;
+  }
+}
+
+/**
+ * Helper: Estimate v0.6 gas limits through the bundler with stub paymaster data, falling back to
+ * the defaults when estimation fails
+ */
+async function estimateV06GasLimits(
+  entryPointAddress: Address,
+  userOperation: RpcUserOperation<'0.6'>,
+  paymasterAndData: Hex
+): Promise<typeof DEFAULT_V06_GAS_LIMITS> {
+  try {
+    const estimate = await backendBundlerClient.request({
+      method: 'eth_estimateUserOperationGas',
+      params: [{ ...userOperation, paymasterAndData }, entryPointAddress],
+    });
+    return {
+      preVerificationGas: applyGasMargin(BigInt(estimate.preVerificationGas), GAS_MARGIN_PERCENT),
+      verificationGasLimit: applyGasMargin(
+        BigInt(estimate.verificationGasLimit),
+        GAS_MARGIN_PERCENT
+      ),
+      callGasLimit: applyGasMargin(BigInt(estimate.callGasLimit), GAS_MARGIN_PERCENT),
+    };
+  } catch (error) {
+    logger.warn('v0.6 gas estimation failed, using default limits:', (error as Error).message);
+    return DEFAULT_V06_GAS_LIMITS;
+  }
+}
+
 /**
  * Helper: Classify and format error for consistent response
  */
@@ -154,14 +629,20 @@ function formatPaymasterError(error: any, id: any): any {
     };
   }
 
-  if (errorMsg.includes('policy') || errorMsg.includes('limit')) {
+  if (error instanceof SponsorBudgetExceededError) {
     return {
       jsonrpc: '2.0',
       id,
       error: {
         code: -32011,
         message: 'Policy limit exceeded',
-        data: errorMsg,
+        data: {
+          reason: errorMsg,
+          scope: error.scope,
+          limit: error.limit.toString(),
+          remaining: error.remaining.toString(),
+          resetAt: error.resetAt,
+        },
       },
     };
   }
@@ -179,7 +660,7 @@ function formatPaymasterError(error: any, id: any): any {
 }
 
 /**
- * JSON-RPC Handler for Paymaster methods
+ * JSON-RPC Handler for Paymaster methods. Accepts a single request or a batch (JSON-RPC 2.0).
  */
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   // Only accept POST requests
@@ -188,233 +669,1034 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 
   try {
-    const { jsonrpc, id, method, params } = req.body;
+    // Bodies sent without a JSON content type arrive as raw strings
+    let payload = req.body;
+    if (typeof payload === 'string') {
+      try {
+        payload = JSON.parse(payload);
+      } catch {
+        return res.status(400).json(rpcError(400, null, -32700, 'Parse error').body);
+      }
+    }
 
-    // Validate the JSON-RPC request
-    if (jsonrpc !== '2.0' || !id || !method) {
-      return res.status(400).json({
-        jsonrpc: '2.0',
-        id: id || null,
-        error: { code: -32600, message: 'Invalid request' },
-      });
+    const batch: BatchContext = {
+      clientIp: getClientIp(req),
+      // Every paymaster method requires a verified Privy session
+      getSession: once(() =>
+        authenticatePrivyRequest(req.headers, req.cookies, backendPublicClient)
+      ),
+      getPaymasterAddress: oncePerKey(getPaymasterAddress),
+    };
+
+    // Single request
+    if (!Array.isArray(payload)) {
+      const response = await handleRpcRequest(payload, batch);
+      if (!response) {
+        return res.status(204).end();
+      }
+      if (response.retryAfterSeconds !== undefined) {
+        res.setHeader('Retry-After', response.retryAfterSeconds.toString());
+      }
+      return res.status(response.status).json(response.body);
+    }
+
+    // Batch request
+    if (payload.length === 0) {
+      return res
+        .status(400)
+        .json(rpcError(400, null, -32600, 'Invalid request', 'Empty batch').body);
+    }
+    if (payload.length > MAX_BATCH_SIZE) {
+      return res
+        .status(400)
+        .json(
+          rpcError(400, null, -32600, 'Invalid request', `Batch exceeds ${MAX_BATCH_SIZE} entries`)
+            .body
+        );
+    }
+
+    const responses = (
+      await Promise.all(payload.map(entry => handleRpcRequest(entry, batch)))
+    ).filter((response): response is RpcResponse => response !== null);
+
+    // A batch of notifications gets no response at all
+    if (responses.length === 0) {
+      return res.status(204).end();
+    }
+
+    const retryAfterSeconds = Math.max(
+      ...responses.map(response => response.retryAfterSeconds ?? 0)
+    );
+    if (retryAfterSeconds > 0) {
+      res.setHeader('Retry-After', retryAfterSeconds.toString());
+    }
+    return res.status(200).json(responses.map(response => response.body));
+  } catch (error) {
+    logger.error('RPC handler error:', error);
+    return res
+      .status(500)
+      .json(rpcError(500, null, -32603, 'Internal error', (error as Error).message).body);
+  }
+}
+
+/**
+ * Helper: Whether a value can be used as a JSON-RPC id
+ */
+function isValidId(id: unknown): id is JsonRpcId {
+  return id === null || typeof id === 'string' || (typeof id === 'number' && Number.isFinite(id));
+}
+
+/**
+ * Handle one JSON-RPC request object. Returns null for notifications, which get no response.
+ */
+async function handleRpcRequest(entry: unknown, batch: BatchContext): Promise<RpcResponse | null> {
+  // Validate the JSON-RPC request
+  if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+    return rpcError(400, null, -32600, 'Invalid request');
+  }
+
+  const { jsonrpc, method } = entry as Partial<JsonRpcRequest>;
+  const hasId = 'id' in entry;
+  const id = (entry as JsonRpcRequest).id;
+
+  if (hasId && !isValidId(id)) {
+    return rpcError(400, null, -32600, 'Invalid request', 'id must be a string, number or null');
+  }
+  if (jsonrpc !== '2.0' || typeof method !== 'string') {
+    return rpcError(400, hasId ? (id as JsonRpcId) : null, -32600, 'Invalid request');
+  }
+
+  const request = entry as JsonRpcRequest;
+  const response = await dispatchRpcRequest(request, hasId ? (id as JsonRpcId) : null, batch);
+
+  // Notifications are still executed, but never answered
+  return hasId ? response : null;
+}
+
+/**
+ * Rate limit, authenticate and route a validated JSON-RPC request
+ */
+async function dispatchRpcRequest(
+  request: JsonRpcRequest,
+  id: JsonRpcId,
+  batch: BatchContext
+): Promise<RpcResponse> {
+  try {
+    // Throttle by IP before doing any verification work
+    const rateLimitKind: RateLimitKind = SIGNING_METHODS.includes(request.method)
+      ? 'final'
+      : 'stub';
+    const ipLimited = await rateLimiter.check(rateLimitKind, { ip: batch.clientIp });
+    if (ipLimited) {
+      return rateLimitedResponse(id, ipLimited);
+    }
+
+    // Static information that does not need a session
+    if (request.method === 'pm_supportedEntryPoints') {
+      return { status: 200, body: { jsonrpc: '2.0', id, result: SUPPORTED_ENTRY_POINTS } };
+    }
+    if (request.method === 'pm_getTokenQuotes') {
+      return await handleGetTokenQuotes(request, id);
+    }
+
+    let session: PrivySession;
+    try {
+      session = await batch.getSession();
+    } catch (error) {
+      if (!(error instanceof PrivyAuthError)) throw error;
+
+      logger.warn('Rejected unauthenticated paymaster request:', error.message);
+      return rpcError(401, id, -32013, 'Unauthorized', error.message);
     }
 
     // Handle different RPC methods
-    switch (method) {
+    switch (request.method) {
       case 'pm_getPaymasterData':
-        return handleGetPaymasterData(req, res);
+        return await handleGetPaymasterData(request, id, batch, session);
 
       case 'pm_getPaymasterStubData':
-        return handleGetPaymasterStubData(req, res);
+        return await handleGetPaymasterStubData(request, id, batch, session);
+
+      case 'pm_sponsorUserOperation':
+        return await handleSponsorUserOperation(request, id, batch, session);
 
       default:
-        return res.status(400).json({
-          jsonrpc: '2.0',
-          id,
-          error: { code: -32601, message: 'Method not found' },
-        });
+        return rpcError(400, id, -32601, 'Method not found');
     }
   } catch (error) {
     logger.error('RPC handler error:', error);
-    return res.status(500).json({
-      jsonrpc: '2.0',
-      id: req.body?.id || null,
-      error: { code: -32603, message: 'Internal error', data: (error as Error).message },
+    return rpcError(500, id, -32603, 'Internal error', (error as Error).message);
+  }
+}
+
+/**
+ * Helper: Error response for missing method parameters
+ */
+function invalidParams(id: JsonRpcId, required: string): RpcResponse {
+  logger.error('Invalid params: Missing required parameters');
+  return rpcError(400, id, -32602, 'Invalid params', `Required parameters: ${required}`);
+}
+
+/**
+ * Helper: Check that the sender is one of the session's smart accounts and within its rate limits.
+ * Returns the error response to send, or null when the request may proceed.
+ */
+async function authorizeSender(
+  id: JsonRpcId,
+  session: PrivySession,
+  kind: RateLimitKind,
+  sender: Address,
+  entryPointVersion: EntryPointVersion
+): Promise<RpcResponse | null> {
+  // Only sponsor the smart account of the authenticated user
+  if (!isSessionSender(session, sender, entryPointVersion)) {
+    logger.warn('Sender does not belong to the authenticated user', {
+      userId: session.userId,
+      sender,
     });
+    return rpcError(403, id, -32014, 'Sender does not belong to the authenticated user', sender);
   }
+
+  const senderLimited = await rateLimiter.check(kind, { user: session.userId, sender });
+  if (senderLimited) {
+    return rateLimitedResponse(id, senderLimited);
+  }
+
+  return null;
 }
 
 /**
- * Handle pm_getPaymasterData method
+ * Helper: Simulate a signed operation - validation, then the account's execution - and refuse it
+ * when either reverts. Returns the error response to send, or null to release the paymaster data.
+ * Simulations that fail without a revert (RPC errors) are logged and let through, so an unhealthy
+ * node does not stop sponsorship.
+ */
+async function simulateSignedOperation({
+  id,
+  userOperation,
+  entryPointAddress,
+  entryPointVersion,
+  paymasterAddress,
+  paymasterData,
+}: {
+  id: JsonRpcId;
+  userOperation: RpcUserOperation;
+  entryPointAddress: Address;
+  entryPointVersion: EntryPointVersion;
+  paymasterAddress: Address;
+  paymasterData: Hex;
+}): Promise<RpcResponse | null> {
+  if (!SIMULATE_BEFORE_SIGNING) {
+    return null;
+  }
+
+  const formattedUserOperation = toUserOperation(userOperation);
+  try {
+    await simulateUserOperation({
+      client: backendPublicClient,
+      entryPointAddress,
+      entryPointVersion,
+      userOperation: (entryPointVersion !== '0.6'
+        ? { ...formattedUserOperation, paymaster: paymasterAddress, paymasterData }
+        : {
+            ...formattedUserOperation,
+            paymasterAndData: `0x${paymasterAddress.slice(2)}${paymasterData.slice(2)}`,
+          }) as UserOperation,
+    });
+    return null;
+  } catch (error) {
+    if (error instanceof UserOperationSimulationError) {
+      logger.warn('UserOperation failed simulation, not signing', {
+        sender: userOperation.sender,
+        stage: error.stage,
+        reason: error.reason,
+      });
+      return rpcError(400, id, -32017, 'UserOperation simulation failed', {
+        stage: error.stage,
+        reason: error.reason,
+        revertData: error.revertData,
+      });
+    }
+
+    logger.warn('UserOperation simulation unavailable, signing anyway:', (error as Error).message);
+    return null;
+  }
+}
+
+/**
+ * Helper: Apply the sponsorship policy, sign and simulate the operation, and charge it against the
+ * budgets. Returns the final paymaster fields, or the error response to send instead.
  */
-async function handleGetPaymasterData(req: NextApiRequest, res: NextApiResponse) {
-  const { id, params } = req.body;
+async function sponsorUserOperation({
+  id,
+  batch,
+  userOperation,
+  entryPointAddress,
+  entryPointVersion,
+  chainId,
+  validity,
+}: {
+  id: JsonRpcId;
+  batch: BatchContext;
+  userOperation: RpcUserOperation;
+  entryPointAddress: Address;
+  entryPointVersion: EntryPointVersion;
+  chainId: number;
+  validity: ValidityWindow;
+}): Promise<
+  { error: RpcResponse } | { paymasterAddress: Address; paymasterData: Hex; paymasterAndData: Hex }
+> {
+  const isEntryPointV07OrLater = entryPointVersion !== '0.6';
+
+  // Enforce the sponsorship policy before anything gets signed
+  const policyResult = evaluateSponsorPolicy(userOperation, sponsorPolicy);
+  if (!policyResult.allowed) {
+    logger.warn('UserOperation rejected by sponsorship policy', {
+      sender: userOperation.sender,
+      rule: policyResult.rule,
+      reason: policyResult.reason,
+    });
+    return {
+      error: rpcError(403, id, -32012, `Sponsorship policy rejected: ${policyResult.rule}`, {
+        rule: policyResult.rule,
+        reason: policyResult.reason,
+      }),
+    };
+  }
 
+  // Generate and sign the paymaster data
+  const signResult = await signUserOperationWithSponsor(
+    userOperation,
+    entryPointVersion,
+    await batch.getPaymasterAddress(entryPointVersion),
+    validity.validUntil,
+    validity.validAfter
+  );
+
+  if (!signResult) {
+    logger.error('Failed to sign user operation');
+    return {
+      error: rpcError(
+        500,
+        id,
+        -32603,
+        'Failed to sign user operation',
+        'Error generating paymaster signature'
+      ),
+    };
+  }
+
+  const { paymasterAddress, paymasterData } = signResult;
+
+  // Refuse to release a signature for an operation that would revert
+  const simulationError = await simulateSignedOperation({
+    id,
+    userOperation,
+    entryPointAddress,
+    entryPointVersion,
+    paymasterAddress,
+    paymasterData,
+  });
+  if (simulationError) {
+    return { error: simulationError };
+  }
+
+  // Format the combined paymasterAndData field if needed
+  const paymasterAndData = `0x${paymasterAddress.slice(2)}${paymasterData.slice(2)}` as Hex;
+
+  // Charge the worst-case gas cost against the sponsorship budgets before releasing the signature
+  const formattedUserOperation = toUserOperation(userOperation);
+  const userOpHash = getUserOperationHash({
+    chainId,
+    entryPointAddress,
+    entryPointVersion,
+    userOperation: (isEntryPointV07OrLater
+      ? { ...formattedUserOperation, paymaster: paymasterAddress, paymasterData }
+      : { ...formattedUserOperation, paymasterAndData }) as UserOperation,
+  });
+  await sponsorBudget.charge({
+    userOpHash,
+    sender: userOperation.sender,
+    nonce: formattedUserOperation.nonce,
+    amount: getUserOperationMaxGasCost(formattedUserOperation),
+    validUntil: Number(validity.validUntil),
+  });
+
+  return { paymasterAddress, paymasterData, paymasterAndData };
+}
+
+/**
+ * Helper: Token quote for the worst-case gas cost of an operation
+ */
+function getTokenQuote(userOperation: UserOperation, tokenPayment: TokenPayment): TokenQuote {
+  return {
+    token: tokenPayment.token,
+    exchangeRate: tokenPayment.exchangeRate,
+    maxTokenCost: getTokenCost(
+      getUserOperationMaxGasCost(userOperation),
+      tokenPayment.exchangeRate
+    ),
+  };
+}
+
+/**
+ * Helper: Read the token payment requested in the paymaster context. Returns null for a sponsored
+ * request, the token payment at the current rate, or the error response to send instead.
+ */
+async function resolveTokenPayment(
+  id: JsonRpcId,
+  context: unknown,
+  entryPointVersion: EntryPointVersion
+): Promise<{ error: RpcResponse } | TokenPayment | null> {
+  let tokenContext;
+  try {
+    tokenContext = parseTokenPaymasterContext(context);
+  } catch (error) {
+    return { error: rpcError(400, id, -32602, 'Invalid params', (error as Error).message) };
+  }
+  if (!tokenContext) {
+    return null;
+  }
+
+  // The token paymaster is a single deployment on the v0.7 EntryPoint
+  if (!TOKEN_PAYMASTER_ADDRESS || entryPointVersion !== '0.7') {
+    return {
+      error: rpcError(400, id, -32016, 'Token payment is not available', {
+        entryPointVersion,
+      }),
+    };
+  }
+
+  const exchangeRate = await tokenQuoter.getExchangeRate(tokenContext.token);
+  if (exchangeRate === null) {
+    return {
+      error: rpcError(400, id, -32016, 'Unsupported gas token', { token: tokenContext.token }),
+    };
+  }
+
+  return { paymasterAddress: TOKEN_PAYMASTER_ADDRESS, token: tokenContext.token, exchangeRate };
+}
+
+/**
+ * Helper: The validity window to sign, from the window requested in the paymaster context clamped
+ * to the server limits. Returns the error response to send when the request is malformed.
+ */
+function resolveRequestValidity(
+  id: JsonRpcId,
+  context: unknown
+): { error: RpcResponse } | ValidityWindow {
+  try {
+    return resolveValidityWindow(parseValidityWindowContext(context), validityWindowConfig);
+  } catch (error) {
+    return { error: rpcError(400, id, -32602, 'Invalid params', (error as Error).message) };
+  }
+}
+
+/**
+ * Helper: Quote and sign an operation that pays its gas in an ERC-20. The sender must approve the
+ * token paymaster for the worst-case token cost, either in the batch or beforehand. Token payments
+ * bypass the sponsorship policy and budgets, since the sender pays for the gas.
+ */
+async function payWithToken({
+  id,
+  userOperation,
+  tokenPayment,
+  validity,
+}: {
+  id: JsonRpcId;
+  userOperation: RpcUserOperation;
+  tokenPayment: TokenPayment;
+  validity: ValidityWindow;
+}): Promise<
+  { error: RpcResponse } | { paymasterAddress: Address; paymasterData: Hex; tokenQuote: TokenQuote }
+> {
+  const formattedUserOperation = formatUserOperation(userOperation);
+  const { token, paymasterAddress } = tokenPayment;
+  const tokenQuote = getTokenQuote(formattedUserOperation, tokenPayment);
+
+  // An approval in the batch runs before postOp pulls the tokens, otherwise use the current one
+  let approvedInBatch: bigint | null = null;
+  try {
+    approvedInBatch = findTokenApproval(
+      decodeAccountCalls(formattedUserOperation.callData),
+      token,
+      paymasterAddress
+    );
+  } catch {
+    // Undecodable callData - fall back to the allowance on chain
+  }
+  const [allowance, balance] = await Promise.all([
+    approvedInBatch ??
+      backendPublicClient.readContract({
+        address: token,
+        abi: erc20Abi,
+        functionName: 'allowance',
+        args: [formattedUserOperation.sender, paymasterAddress],
+      }),
+    backendPublicClient.readContract({
+      address: token,
+      abi: erc20Abi,
+      functionName: 'balanceOf',
+      args: [formattedUserOperation.sender],
+    }),
+  ]);
+
+  const shortfall =
+    allowance < tokenQuote.maxTokenCost
+      ? 'Token allowance does not cover the gas cost'
+      : balance < tokenQuote.maxTokenCost
+        ? 'Token balance does not cover the gas cost'
+        : null;
+  if (shortfall) {
+    logger.warn(shortfall, { sender: formattedUserOperation.sender, token });
+    return {
+      error: rpcError(400, id, -32016, shortfall, {
+        token,
+        maxTokenCost: tokenQuote.maxTokenCost.toString(),
+        allowance: allowance.toString(),
+        balance: balance.toString(),
+      }),
+    };
+  }
+
+  const signResult = await signUserOperationWithTokenQuote(
+    userOperation,
+    paymasterAddress,
+    tokenQuote,
+    validity.validUntil,
+    validity.validAfter
+  );
+  if (!signResult) {
+    return {
+      error: rpcError(500, id, -32603, 'Failed to sign token quote', 'Error generating signature'),
+    };
+  }
+
+  // The token paymaster is only deployed on the v0.7 EntryPoint
+  const simulationError = await simulateSignedOperation({
+    id,
+    userOperation,
+    entryPointAddress: ENTRY_POINT.address,
+    entryPointVersion: '0.7',
+    ...signResult,
+  });
+  if (simulationError) {
+    return { error: simulationError };
+  }
+
+  return { ...signResult, tokenQuote };
+}
+
+/**
+ * Helper: Token quote fields returned alongside token paymaster data
+ */
+function formatTokenQuote(tokenQuote: TokenQuote) {
+  return {
+    token: tokenQuote.token,
+    exchangeRate: numberToHex(tokenQuote.exchangeRate),
+    maxTokenCost: numberToHex(tokenQuote.maxTokenCost),
+  };
+}
+
+/**
+ * Helper: Error response for an exception thrown while sponsoring
+ */
+function paymasterErrorResponse(error: unknown, id: JsonRpcId): RpcResponse {
+  return {
+    status: error instanceof SponsorBudgetExceededError ? 429 : 500,
+    body: formatPaymasterError(error, id),
+  };
+}
+
+/**
+ * Handle pm_getTokenQuotes method: the tokens the token paymaster accepts and their exchange rates,
+ * in token base units per MON. Rates are re-read when the operation is signed.
+ */
+async function handleGetTokenQuotes(request: JsonRpcRequest, id: JsonRpcId): Promise<RpcResponse> {
+  const [entryPointAddress] = Array.isArray(request.params) ? request.params : [];
+  if (!entryPointAddress) {
+    return invalidParams(id, 'entryPointAddress');
+  }
+
+  const entryPointVersion = getEntryPointVersion(entryPointAddress);
+  if (!entryPointVersion) {
+    return unsupportedEntryPoint(id, entryPointAddress);
+  }
+  if (!TOKEN_PAYMASTER_ADDRESS || entryPointVersion !== '0.7') {
+    return rpcError(400, id, -32016, 'Token payment is not available', { entryPointVersion });
+  }
+
+  const tokens = await tokenQuoter.getSupportedTokens();
+  const quotes = await Promise.all(
+    tokens.map(async token => {
+      try {
+        const exchangeRate = await tokenQuoter.getExchangeRate(token);
+        return exchangeRate === null ? [] : [{ token, exchangeRate: numberToHex(exchangeRate) }];
+      } catch (error) {
+        logger.warn('Could not quote gas token', token, (error as Error).message);
+        return [];
+      }
+    })
+  );
+
+  return {
+    status: 200,
+    body: {
+      jsonrpc: '2.0',
+      id,
+      result: { paymaster: TOKEN_PAYMASTER_ADDRESS, quotes: quotes.flat() },
+    },
+  };
+}
+
+/**
+ * Handle pm_getPaymasterData method
+ */
+async function handleGetPaymasterData(
+  request: JsonRpcRequest,
+  id: JsonRpcId,
+  batch: BatchContext,
+  session: PrivySession
+): Promise<RpcResponse> {
   try {
     // Extract parameters
-    const [userOperation, entryPointAddress, chainId, context] = params;
+    const [userOperation, entryPointAddress, chainId, context] = Array.isArray(request.params)
+      ? request.params
+      : [];
 
     // Keep minimal essential logging
     logger.info('Processing paymaster data request');
 
-    // Detect EntryPoint version based on the address
-    const isEntryPointV07 = entryPointAddress == entryPoint07Address;
+    // Detect EntryPoint version based on the address (null when unsupported)
+    const entryPointVersion = getEntryPointVersion(entryPointAddress);
+    const isEntryPointV07OrLater = entryPointVersion !== '0.6';
 
     // QUICK VALIDATION - must respond fast to avoid timeouts
     if (!userOperation || !userOperation.sender || !entryPointAddress || !chainId) {
-      logger.error('Invalid params: Missing required parameters');
-      return res.status(400).json({
-        jsonrpc: '2.0',
-        id,
-        error: {
-          code: -32602,
-          message: 'Invalid params',
-          data: 'Required parameters: userOperation, entryPointAddress, chainId',
-        },
-      });
+      return invalidParams(id, 'userOperation, entryPointAddress, chainId');
     }
 
-    // Set validity window (valid for 1 hour)
-    const currentTime = BigInt(Math.floor(Date.now() / 1000));
-    const validUntil = currentTime + BigInt(3600);
-    const validAfter = BigInt(0);
+    if (!entryPointVersion) {
+      return unsupportedEntryPoint(id, entryPointAddress);
+    }
 
-    // Generate and sign the paymaster data
-    const signResult = await signUserOperationWithSponsor(
-      userOperation as UserOperation,
-      validUntil,
-      validAfter
+    if (!isConfiguredChain(chainId)) {
+      return unsupportedChain(id, chainId);
+    }
+
+    const unauthorized = await authorizeSender(
+      id,
+      session,
+      'final',
+      userOperation.sender,
+      entryPointVersion
     );
+    if (unauthorized) {
+      return unauthorized;
+    }
 
-    if (!signResult) {
-      logger.error('Failed to sign user operation');
-      return res.status(500).json({
-        jsonrpc: '2.0',
-        id,
-        error: {
-          code: -32603,
-          message: 'Failed to sign user operation',
-          data: 'Error generating paymaster signature',
-        },
-      });
+    const validity = resolveRequestValidity(id, context);
+    if ('error' in validity) {
+      return validity.error;
     }
 
-    const { signature, paymasterAddress, paymasterData } = signResult;
+    // The sender pays in an ERC-20 when the context names a token
+    const tokenPayment = await resolveTokenPayment(id, context, entryPointVersion);
+    if (tokenPayment && 'error' in tokenPayment) {
+      return tokenPayment.error;
+    }
+    if (tokenPayment) {
+      const paid = await payWithToken({ id, userOperation, tokenPayment, validity });
+      if ('error' in paid) {
+        return paid.error;
+      }
 
-    // Format the combined paymasterAndData field if needed
-    const formattedPaymasterAndData =
-      `0x${paymasterAddress.slice(2)}${paymasterData.slice(2)}` as Hex;
+      logger.info('Token paymaster data generated successfully');
+      return {
+        status: 200,
+        body: {
+          jsonrpc: '2.0',
+          id,
+          result: {
+            paymaster: paid.paymasterAddress,
+            paymasterData: paid.paymasterData,
+            tokenQuote: formatTokenQuote(paid.tokenQuote),
+            isFinal: true,
+          },
+        },
+      };
+    }
+
+    const sponsored = await sponsorUserOperation({
+      id,
+      batch,
+      userOperation,
+      entryPointAddress,
+      entryPointVersion,
+      chainId: MONAD_TESTNET_CHAIN_ID,
+      validity,
+    });
+    if ('error' in sponsored) {
+      return sponsored.error;
+    }
 
     logger.info('Paymaster data generated successfully');
 
     // Return successful response based on EntryPoint version
-    if (isEntryPointV07) {
-      // For EntryPoint v0.7: separate paymaster and paymasterData fields
-      return res.status(200).json({
-        jsonrpc: '2.0',
-        id,
-        result: {
-          paymaster: paymasterAddress,
-          paymasterData: paymasterData,
-          sponsor: {
-            name: 'Fastlane Paymaster',
+    if (isEntryPointV07OrLater) {
+      // For EntryPoint v0.7 and v0.8: separate paymaster and paymasterData fields
+      return {
+        status: 200,
+        body: {
+          jsonrpc: '2.0',
+          id,
+          result: {
+            paymaster: sponsored.paymasterAddress,
+            paymasterData: sponsored.paymasterData,
+            sponsor: {
+              name: 'Fastlane Paymaster',
+            },
+            isFinal: true, // This is the final data with real signature
           },
-          isFinal: true, // This is the final data with real signature
         },
-      });
+      };
     } else {
-      // For EntryPoint v0.6: combined paymasterAndData field plus gas limits
-      return res.status(200).json({
-        jsonrpc: '2.0',
-        id,
-        result: {
-          paymasterAndData: formattedPaymasterAndData,
-          // Add estimated gas limits for v0.6 - these ensure proper operation execution
-          preVerificationGas: userOperation.preVerificationGas || '0x350f7',
-          verificationGasLimit: userOperation.verificationGasLimit || '0x501ab',
-          callGasLimit: userOperation.callGasLimit || '0x212df',
-          sponsor: {
-            name: 'Fastlane Paymaster',
+      // For EntryPoint v0.6: combined paymasterAndData field
+      return {
+        status: 200,
+        body: {
+          jsonrpc: '2.0',
+          id,
+          result: {
+            // The signature covers the gas limits, so the op keeps the ones it was sent with
+            paymasterAndData: sponsored.paymasterAndData,
+            sponsor: {
+              name: 'Fastlane Paymaster',
+            },
+            isFinal: true, // This is the final data with real signature
           },
-          isFinal: true, // This is the final data with real signature
         },
-      });
+      };
     }
   } catch (error) {
     logger.error('Error in getPaymasterData:', error);
 
     // Format the error for consistent response
-    const errorResponse = formatPaymasterError(error, id);
-    return res.status(500).json(errorResponse);
+    return paymasterErrorResponse(error, id);
   }
 }
 
 /**
  * Handle pm_getPaymasterStubData method
  */
-async function handleGetPaymasterStubData(req: NextApiRequest, res: NextApiResponse) {
-  const { id, params } = req.body;
-
+async function handleGetPaymasterStubData(
+  request: JsonRpcRequest,
+  id: JsonRpcId,
+  batch: BatchContext,
+  session: PrivySession
+): Promise<RpcResponse> {
   try {
     // Extract parameters
-    const [userOperation, entryPointAddress, chainId, context] = params;
+    const [userOperation, entryPointAddress, chainId, context] = Array.isArray(request.params)
+      ? request.params
+      : [];
 
     // Keep minimal essential logging
     logger.info('Processing paymaster stub data request');
 
-    // Detect EntryPoint version based on the address
-    const isEntryPointV07 = entryPointAddress == entryPoint07Address;
+    // Detect EntryPoint version based on the address (null when unsupported)
+    const entryPointVersion = getEntryPointVersion(entryPointAddress);
 
     // Validate required parameters
     if (!userOperation || !userOperation.sender || !entryPointAddress || !chainId) {
-      logger.error('Invalid params: Missing required parameters');
-      return res.status(400).json({
-        jsonrpc: '2.0',
-        id,
-        error: {
-          code: -32602,
-          message: 'Invalid params',
-          data: 'Required parameters: userOperation, entryPointAddress, chainId',
-        },
-      });
+      return invalidParams(id, 'userOperation, entryPointAddress, chainId');
+    }
+
+    if (!entryPointVersion) {
+      return unsupportedEntryPoint(id, entryPointAddress);
+    }
+
+    if (!isConfiguredChain(chainId)) {
+      return unsupportedChain(id, chainId);
+    }
+
+    const unauthorized = await authorizeSender(
+      id,
+      session,
+      'stub',
+      userOperation.sender,
+      entryPointVersion
+    );
+    if (unauthorized) {
+      return unauthorized;
+    }
+
+    const tokenPayment = await resolveTokenPayment(id, context, entryPointVersion);
+    if (tokenPayment && 'error' in tokenPayment) {
+      return tokenPayment.error;
     }
 
-    // Get paymaster address
-    const paymasterAddress = await getPaymasterAddress();
+    // Get paymaster address (shared by every entry of a batch)
+    const paymasterAddress = tokenPayment
+      ? tokenPayment.paymasterAddress
+      : await batch.getPaymasterAddress(entryPointVersion);
     if (!paymasterAddress) {
       logger.error('Could not retrieve paymaster address');
-      return res.status(500).json({
-        jsonrpc: '2.0',
+      return rpcError(
+        500,
         id,
-        error: {
-          code: -32603,
-          message: 'Paymaster address unavailable for stub data',
-          data: 'Could not retrieve paymaster address from hub contract',
+        -32603,
+        'Paymaster address unavailable for stub data',
+        'Could not retrieve paymaster address from hub contract'
+      );
+    }
+
+    // Return response based on EntryPoint version
+    if (entryPointVersion !== '0.6') {
+      const gasLimits = await estimatePaymasterGasLimits(
+        paymasterAddress,
+        entryPointAddress,
+        entryPointVersion,
+        userOperation,
+        tokenPayment ?? undefined
+      );
+
+      // Convert BigInt values to hex strings for proper JSON serialization
+      return {
+        status: 200,
+        body: {
+          jsonrpc: '2.0',
+          id,
+          result: {
+            paymaster: paymasterAddress,
+            paymasterData: STUB_PAYMASTER_DATA,
+            paymasterVerificationGasLimit: numberToHex(gasLimits.paymasterVerificationGasLimit),
+            paymasterPostOpGasLimit: numberToHex(gasLimits.paymasterPostOpGasLimit),
+            // Token payments are not sponsored, the sender pays at this rate
+            ...(tokenPayment
+              ? {
+                  tokenQuote: formatTokenQuote(
+                    getTokenQuote(formatUserOperation(userOperation), tokenPayment)
+                  ),
+                }
+              : { sponsor: { name: 'Fastlane Paymaster' } }),
+            isFinal: false,
+          },
         },
-      });
+      };
+    } else {
+      // Generate stub paymaster data with zeros for the signature part
+      const paymasterAndData =
+        `0x${paymasterAddress.slice(2)}${STUB_PAYMASTER_DATA.slice(2)}` as Hex;
+      const gasLimits = await estimateV06GasLimits(
+        entryPointAddress,
+        userOperation,
+        paymasterAndData
+      );
+
+      return {
+        status: 200,
+        body: {
+          jsonrpc: '2.0',
+          id,
+          result: {
+            paymasterAndData,
+            preVerificationGas: numberToHex(gasLimits.preVerificationGas),
+            verificationGasLimit: numberToHex(gasLimits.verificationGasLimit),
+            callGasLimit: numberToHex(gasLimits.callGasLimit),
+            sponsor: {
+              name: 'Fastlane Paymaster',
+            },
+            isFinal: false,
+          },
+        },
+      };
     }
+  } catch (error) {
+    logger.error('Error in getPaymasterStubData:', error);
 
-    // Generate stub paymaster data with zeros for the signature part
-    const paymasterAndData = `0x${paymasterAddress.slice(2)}${'00'.repeat(64)}` as Hex;
+    // Format the error for consistent response
+    return paymasterErrorResponse(error, id);
+  }
+}
 
-    // Return response based on EntryPoint version
-    if (isEntryPointV07) {
-      // Convert BigInt values to strings for proper JSON serialization
-      return res.status(200).json({
-        jsonrpc: '2.0',
+/**
+ * Handle pm_sponsorUserOperation method: estimate gas with stub paymaster fields, then sign the
+ * operation with those limits in one round trip
+ */
+async function handleSponsorUserOperation(
+  request: JsonRpcRequest,
+  id: JsonRpcId,
+  batch: BatchContext,
+  session: PrivySession
+): Promise<RpcResponse> {
+  try {
+    // Extract parameters
+    const [userOperation, entryPointAddress, context] = Array.isArray(request.params)
+      ? request.params
+      : [];
+
+    logger.info('Processing sponsor user operation request');
+
+    // Detect EntryPoint version based on the address (null when unsupported)
+    const entryPointVersion = getEntryPointVersion(entryPointAddress);
+    const isEntryPointV07OrLater = entryPointVersion !== '0.6';
+
+    // Validate required parameters
+    if (!userOperation || !userOperation.sender || !entryPointAddress) {
+      return invalidParams(id, 'userOperation, entryPointAddress');
+    }
+
+    if (!entryPointVersion) {
+      return unsupportedEntryPoint(id, entryPointAddress);
+    }
+
+    const unauthorized = await authorizeSender(
+      id,
+      session,
+      'final',
+      userOperation.sender,
+      entryPointVersion
+    );
+    if (unauthorized) {
+      return unauthorized;
+    }
+
+    const validity = resolveRequestValidity(id, context);
+    if ('error' in validity) {
+      return validity.error;
+    }
+
+    const tokenPayment = await resolveTokenPayment(id, context, entryPointVersion);
+    if (tokenPayment && 'error' in tokenPayment) {
+      return tokenPayment.error;
+    }
+
+    const paymasterAddress = tokenPayment
+      ? tokenPayment.paymasterAddress
+      : await batch.getPaymasterAddress(entryPointVersion);
+    if (!paymasterAddress) {
+      logger.error('Could not retrieve paymaster address');
+      return rpcError(
+        500,
         id,
-        result: {
+        -32603,
+        'Paymaster address unavailable',
+        'Could not retrieve paymaster address from hub contract'
+      );
+    }
+
+    // Estimate with placeholder paymaster fields so paymaster validation is accounted for
+    const paymasterGasLimits =
+      entryPointVersion !== '0.6'
+        ? await estimatePaymasterGasLimits(
+            paymasterAddress,
+            entryPointAddress,
+            entryPointVersion,
+            userOperation,
+            tokenPayment ?? undefined
+          )
+        : DEFAULT_PAYMASTER_GAS_LIMITS;
+    const stubPaymasterFields = isEntryPointV07OrLater
+      ? {
           paymaster: paymasterAddress,
-          paymasterData: ('0x' + '00'.repeat(64)) as Hex,
-          paymasterVerificationGasLimit: '75000',
-          paymasterPostOpGasLimit: '120000',
-          sponsor: {
-            name: 'Fastlane Paymaster',
-          },
-          isFinal: false,
-        },
+          paymasterData: STUB_PAYMASTER_DATA,
+          paymasterVerificationGasLimit: numberToHex(
+            paymasterGasLimits.paymasterVerificationGasLimit
+          ),
+          paymasterPostOpGasLimit: numberToHex(paymasterGasLimits.paymasterPostOpGasLimit),
+        }
+      : {
+          paymasterAndData: `0x${paymasterAddress.slice(2)}${STUB_PAYMASTER_DATA.slice(2)}`,
+        };
+
+    let gasEstimate;
+    try {
+      gasEstimate = await backendBundlerClient.request({
+        method: 'eth_estimateUserOperationGas',
+        params: [{ ...userOperation, ...stubPaymasterFields }, entryPointAddress],
       });
-    } else {
-      return res.status(200).json({
-        jsonrpc: '2.0',
+    } catch (error) {
+      logger.warn('Gas estimation failed for sponsored operation:', (error as Error).message);
+      return rpcError(500, id, -32603, 'Gas estimation failed', (error as Error).message);
+    }
+
+    // The signature covers the gas limits, so sign the operation as it will be sent
+    const gasLimits = {
+      callGasLimit: gasEstimate.callGasLimit,
+      verificationGasLimit: gasEstimate.verificationGasLimit,
+      preVerificationGas: gasEstimate.preVerificationGas,
+      ...(isEntryPointV07OrLater && {
+        paymasterVerificationGasLimit: numberToHex(
+          paymasterGasLimits.paymasterVerificationGasLimit
+        ),
+        paymasterPostOpGasLimit: numberToHex(paymasterGasLimits.paymasterPostOpGasLimit),
+      }),
+    };
+
+    if (tokenPayment) {
+      const paid = await payWithToken({
         id,
-        result: {
-          paymasterAndData,
-          preVerificationGas: '0x350f7',
-          verificationGasLimit: '0x501ab',
-          callGasLimit: '0x212df',
-          sponsor: {
-            name: 'Fastlane Paymaster',
+        userOperation: { ...userOperation, ...stubPaymasterFields, ...gasLimits },
+        tokenPayment,
+        validity,
+      });
+      if ('error' in paid) {
+        return paid.error;
+      }
+
+      logger.info('User operation quoted for token payment');
+      return {
+        status: 200,
+        body: {
+          jsonrpc: '2.0',
+          id,
+          result: {
+            paymaster: paid.paymasterAddress,
+            paymasterData: paid.paymasterData,
+            ...gasLimits,
+            tokenQuote: formatTokenQuote(paid.tokenQuote),
           },
-          isFinal: false,
         },
-      });
+      };
     }
+
+    const sponsored = await sponsorUserOperation({
+      id,
+      batch,
+      userOperation: { ...userOperation, ...stubPaymasterFields, ...gasLimits },
+      entryPointAddress,
+      entryPointVersion,
+      chainId: MONAD_TESTNET_CHAIN_ID,
+      validity,
+    });
+    if ('error' in sponsored) {
+      return sponsored.error;
+    }
+
+    logger.info('User operation sponsored successfully');
+
+    return {
+      status: 200,
+      body: {
+        jsonrpc: '2.0',
+        id,
+        result: isEntryPointV07OrLater
+          ? {
+              paymaster: sponsored.paymasterAddress,
+              paymasterData: sponsored.paymasterData,
+              ...gasLimits,
+            }
+          : {
+              paymasterAndData: sponsored.paymasterAndData,
+              ...gasLimits,
+            },
+      },
+    };
   } catch (error) {
-    logger.error('Error in getPaymasterStubData:', error);
+    logger.error('Error in sponsorUserOperation:', error);
 
     // Format the error for consistent response
-    const errorResponse = formatPaymasterError(error, id);
-    return res.status(500).json(errorResponse);
+    return paymasterErrorResponse(error, id);
   }
 }
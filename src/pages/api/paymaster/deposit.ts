@@ -0,0 +1,68 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { isBearerAuthorized } from '../../../utils/bearerAuth';
+import { logger } from '../../../utils/logger';
+import { getDepositWatchers, type DepositWatcherState } from '../../../utils/depositWatcher';
+
+const depositWatchers = getDepositWatchers();
+
+// Bearer token for on-demand checks, which may refill from the treasury. Unset disables them.
+const DEPOSIT_ADMIN_TOKEN = process.env.DEPOSIT_ADMIN_TOKEN;
+
+/**
+ * Helper: The state of every watched paymaster as JSON, with amounts as wei strings
+ */
+function formatDepositStates(states: DepositWatcherState[]) {
+  return {
+    paymasters: states.map((state, index) => ({
+      entryPointVersion: depositWatchers.watchers[index].entryPointVersion,
+      paymaster: state.paymaster,
+      deposit: state.deposit?.toString() ?? null,
+      level: state.level,
+      checkedAt: state.checkedAt,
+      refills: state.refills.map(refill => ({ ...refill, amount: refill.amount.toString() })),
+    })),
+    thresholds: {
+      low: depositWatchers.thresholds.low.toString(),
+      critical: depositWatchers.thresholds.critical.toString(),
+    },
+    refillEnabled: depositWatchers.refillEnabled,
+    pollingIntervalSeconds: depositWatchers.intervalSeconds || null,
+    alerts: depositWatchers.alerts.map(alert => ({ ...alert, deposit: alert.deposit.toString() })),
+  };
+}
+
+/**
+ * GET /api/paymaster/deposit - each paymaster's EntryPoint deposit as of the last check, its
+ * level and recent refills, with the thresholds and alerts. It never sends a transaction.
+ *
+ * POST /api/paymaster/deposit - check every deposit now, refilling those that are low when refills
+ * are enabled. A cron can call this instead of the background poll. Requires `Authorization:
+ * Bearer <DEPOSIT_ADMIN_TOKEN>`.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  res.setHeader('Cache-Control', 'no-store');
+
+  if (req.method === 'GET') {
+    return res
+      .status(200)
+      .json(formatDepositStates(depositWatchers.watchers.map(watcher => watcher.getState())));
+  }
+
+  if (!DEPOSIT_ADMIN_TOKEN) {
+    return res.status(404).json({ error: 'On-demand deposit checks are not enabled' });
+  }
+  if (!isBearerAuthorized(req.headers.authorization, DEPOSIT_ADMIN_TOKEN)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    return res.status(200).json(formatDepositStates(await depositWatchers.check()));
+  } catch (error) {
+    logger.error('Error checking the paymaster deposit:', error);
+    return res.status(500).json({ error: 'Could not check the paymaster deposit' });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { parseEther } from 'viem';
+import { monadTestnet } from 'viem/chains';
+import { backendPublicClient } from '../../../utils/backendClient';
+import { ADDRESS_HUB, ENTRY_POINT, PAYMASTER_ADDRESS, SHBUNDLER_URL } from '../../../utils/config';
+import { logger } from '../../../utils/logger';
+import { checkPaymasterHealth } from '../../../utils/paymasterHealth';
+import { createSponsorSignersFromEnv } from '../../../utils/sponsorSigner';
+
+// The same keys /api/paymaster signs with
+const sponsorSigners = createSponsorSignersFromEnv();
+
+// EntryPoint deposit the deposit check warns below, in MON
+const LOW_DEPOSIT = parseEther(process.env.PAYMASTER_LOW_DEPOSIT || '1');
+
+/**
+ * GET /api/paymaster/health - readiness of the paymaster. Answers 200 when every check passes or
+ * warns, and 503 when any fails, with the pass/warn/fail result of each check in the body.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const report = await checkPaymasterHealth({
+    client: backendPublicClient,
+    chainId: monadTestnet.id,
+    addressHub: ADDRESS_HUB || undefined,
+    configuredPaymaster: PAYMASTER_ADDRESS || undefined,
+    entryPointVersion: ENTRY_POINT.version,
+    lowDeposit: LOW_DEPOSIT,
+    signers: sponsorSigners,
+    bundlerUrl: SHBUNDLER_URL,
+  });
+
+  if (report.status !== 'pass') {
+    logger.warn(
+      'Paymaster health check',
+      report.status,
+      report.checks.filter(check => check.status !== 'pass').map(check => check.name)
+    );
+  }
+
+  res.setHeader('Cache-Control', 'no-store');
+  return res.status(report.status === 'fail' ? 503 : 200).json(report);
+}
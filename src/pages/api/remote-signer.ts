@@ -0,0 +1,36 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { isHex, size, type Hex } from 'viem';
+import { isBearerAuthorized } from '../../utils/bearerAuth';
+import { logger } from '../../utils/logger';
+import { createLocalSponsorSigner } from '../../utils/sponsorSigner';
+
+// Stand-in for a remote signing service, for trying out `remote` sponsor keys locally. It only
+// runs when both REMOTE_SIGNER_PRIVATE_KEY and REMOTE_SIGNER_TOKEN are set.
+const REMOTE_SIGNER_TOKEN = process.env.REMOTE_SIGNER_TOKEN;
+const signer =
+  process.env.REMOTE_SIGNER_PRIVATE_KEY && REMOTE_SIGNER_TOKEN
+    ? createLocalSponsorSigner('remote', process.env.REMOTE_SIGNER_PRIVATE_KEY as Hex)
+    : null;
+
+/**
+ * POST /api/remote-signer - sign `{ keyId, hash }` with the stand-in key, answering `{ signature }`
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!signer || !REMOTE_SIGNER_TOKEN) {
+    return res.status(404).json({ error: 'Remote signer is not enabled' });
+  }
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+  if (!isBearerAuthorized(req.headers.authorization, REMOTE_SIGNER_TOKEN)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const { keyId, hash } = req.body ?? {};
+  if (!isHex(hash) || size(hash) !== 32) {
+    return res.status(400).json({ error: 'hash must be 32 bytes of hex' });
+  }
+
+  logger.info('Remote signer signing for key', keyId);
+  return res.status(200).json({ signature: await signer.signHash(hash) });
+}
@@ -0,0 +1,116 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { isAddress } from 'viem';
+import { backendPublicClient, getPaymasterAddress } from '../../utils/backendClient';
+import { ENTRY_POINT } from '../../utils/config';
+import { logger } from '../../utils/logger';
+import {
+  createSponsorshipIndexer,
+  createSponsorshipStoreFromEnv,
+  summarizeSponsorships,
+  type SponsorshipFilter,
+  type SponsorshipMode,
+} from '../../utils/sponsorshipIndexer';
+
+/**
+ * Helper: Read SPONSORSHIP_INDEXER_START_BLOCK. Malformed values are logged and ignored, so the
+ * indexer falls back to its default lookback.
+ */
+function readStartBlock(): bigint | undefined {
+  const value = process.env.SPONSORSHIP_INDEXER_START_BLOCK;
+  if (!value) return undefined;
+
+  if (!/^\d+$/.test(value.trim())) {
+    logger.warn('Ignoring malformed SPONSORSHIP_INDEXER_START_BLOCK:', value);
+    return undefined;
+  }
+  return BigInt(value.trim());
+}
+
+const START_BLOCK = readStartBlock();
+
+const indexer = createSponsorshipIndexer({
+  client: backendPublicClient,
+  entryPointAddress: ENTRY_POINT.address,
+  // The paymaster on the default EntryPoint
+  getPaymasterAddress: () => getPaymasterAddress(ENTRY_POINT.version),
+  store: createSponsorshipStoreFromEnv(),
+  startBlock: START_BLOCK,
+});
+
+/**
+ * Helper: Read the sender, from, to and mode query parameters, or describe the first bad one
+ */
+function parseFilter(query: NextApiRequest['query']): SponsorshipFilter | string {
+  const param = (name: string) => {
+    const value = query[name];
+    return Array.isArray(value) ? value[0] : value;
+  };
+  const filter: SponsorshipFilter = {};
+
+  const sender = param('sender');
+  if (sender) {
+    if (!isAddress(sender)) return 'sender must be an address';
+    filter.sender = sender;
+  }
+
+  for (const name of ['from', 'to'] as const) {
+    const value = param(name);
+    if (!value) continue;
+    const seconds = Number(value);
+    if (!Number.isInteger(seconds) || seconds < 0) return `${name} must be a unix timestamp`;
+    filter[name] = seconds;
+  }
+
+  const mode = param('mode');
+  if (mode) {
+    if (mode !== 'sponsor' && mode !== 'user') return "mode must be 'sponsor' or 'user'";
+    filter.mode = mode as SponsorshipMode;
+  }
+
+  return filter;
+}
+
+/**
+ * GET /api/sponsorships - indexed UserOperationSponsored events with totals per sender and day.
+ * Amounts are wei strings.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const filter = parseFilter(req.query);
+  if (typeof filter === 'string') {
+    return res.status(400).json({ error: filter });
+  }
+
+  try {
+    const records = await indexer.query(filter);
+    const totals = summarizeSponsorships(records);
+    const cursor = await indexer.getCursor();
+
+    return res.status(200).json({
+      paymaster: await getPaymasterAddress(ENTRY_POINT.version),
+      indexedToBlock: cursor?.toString() ?? null,
+      records: records.map(record => ({
+        ...record,
+        actualGasCost: record.actualGasCost.toString(),
+        policyId: record.policyId.toString(),
+        blockNumber: record.blockNumber.toString(),
+      })),
+      totals: {
+        bySender: totals.bySender.map(total => ({
+          ...total,
+          actualGasCost: total.actualGasCost.toString(),
+        })),
+        byDay: totals.byDay.map(total => ({
+          ...total,
+          actualGasCost: total.actualGasCost.toString(),
+        })),
+      },
+    });
+  } catch (error) {
+    logger.error('Error listing sponsorships:', error);
+    return res.status(500).json({ error: 'Could not list sponsorships' });
+  }
+}
@@ -11,16 +11,37 @@ import WalletStatus from '@/components/WalletStatus';
 import ContractAddresses from '@/components/ContractAddresses';
 import TransactionForm from '@/components/TransactionForm';
 import BondMonForm from '@/components/BondMonForm';
+import UnbondShmonForm from '@/components/UnbondShmonForm';
+import PolicyExplorer from '@/components/PolicyExplorer';
+import SponsorshipDashboard from '@/components/SponsorshipDashboard';
+import ContractCallForm, { type ContractCallPath } from '@/components/ContractCallForm';
+import TokenTransferForm from '@/components/TokenTransferForm';
+import TokenPaidForm from '@/components/TokenPaidForm';
+
+import { DEFAULT_ACCOUNT_MODE, TOKEN_PAYMASTER_ADDRESS, type AccountMode } from '@/utils/config';
+import { type TransactionCall } from '@/utils/calls';
+import { type BondSource } from '@/utils/shmonadBonds';
+import { formatUnits, type Address } from 'viem';
 
 // Demo types
-type DemoType = 'paymaster' | 'self-sponsored' | 'bond-mon' | 'eoa-direct';
+type DemoType =
+  | 'paymaster'
+  | 'token-transfer'
+  | 'token-paid'
+  | 'self-sponsored'
+  | 'bond-mon'
+  | 'policies'
+  | 'eoa-direct'
+  | 'contract-call'
+  | 'sponsorships';
 
 export default function Home() {
   const { login, authenticated, ready } = usePrivy();
   const [selectedDemo, setSelectedDemo] = useState<DemoType>('paymaster');
+  const [accountMode, setAccountMode] = useState<AccountMode>(DEFAULT_ACCOUNT_MODE);
 
   // Use custom hooks
-  const walletManager = useWalletManager();
+  const walletManager = useWalletManager(accountMode);
   const {
     embeddedWallet,
     smartAccount,
@@ -30,7 +51,12 @@ export default function Home() {
     contractAddresses,
     walletBalance,
     smartAccountBalance,
+    tokenBalances,
     bondedShmon,
+    unbondingShmon,
+    topUpConfig,
+    bondedTransactionsLeft,
+    policyId,
     paymasterDeposit,
     logout,
   } = walletManager;
@@ -43,10 +69,18 @@ export default function Home() {
     sponsoredTxStatus,
     selfSponsoredTxHash,
     selfSponsoredTxStatus,
+    tokenPaidTxHash,
+    tokenPaidTxStatus,
     sendTransaction,
-    sendSponsoredTransaction,
-    sendSelfSponsoredTransaction,
+    sendEoaCall,
+    sendSponsoredCalls,
+    sendSponsoredTokenTransfer,
+    sendSelfSponsoredCalls,
+    sendTokenPaidCalls,
     bondMonToShmon,
+    unbondShmon,
+    claimUnbondedShmon,
+    configureBondTopUp,
     setTxStatus,
   } = txOperations;
 
@@ -56,27 +90,62 @@ export default function Home() {
   >();
   const [sponsoredTransactionHash, setSponsoredTransactionHash] = useState<string | undefined>();
   const [eoaTransactionHash, setEoaTransactionHash] = useState<string | undefined>();
+  const [tokenPaidTransactionHash, setTokenPaidTransactionHash] = useState<string | undefined>();
 
   // Wrapper for self-sponsored transaction to capture transaction hash
-  const handleSelfSponsoredTransaction = async (recipient: string, amount: string) => {
-    const result = await sendSelfSponsoredTransaction(recipient, amount);
+  const handleSelfSponsoredTransaction = async (calls: TransactionCall[]) => {
+    const result = await sendSelfSponsoredCalls(calls);
     if (result && 'transactionHash' in result) {
       setSelfSponsoredTransactionHash(result.transactionHash);
     }
   };
 
   // Wrapper for sponsored transaction to capture transaction hash
-  const handleSponsoredTransaction = async (recipient: string, amount: string) => {
-    const result = await sendSponsoredTransaction(recipient, amount);
+  const handleSponsoredTransaction = async (calls: TransactionCall[]) => {
+    const result = await sendSponsoredCalls(calls);
     if (result && typeof result === 'object' && 'transactionHash' in result) {
       setSponsoredTransactionHash(result.transactionHash);
     }
   };
 
+  // Wrapper for sponsored token transfers to capture transaction hash
+  const handleTokenTransfer = async (token: Address, recipient: string, amount: string) => {
+    const result = await sendSponsoredTokenTransfer(token, recipient, amount);
+    if (result) {
+      setSponsoredTransactionHash(result.transactionHash);
+    }
+  };
+
+  // Pay gas in a token - the signed token cost is confirmed before the account signs
+  const handleTokenPaidTransaction = async (token: Address, calls: TransactionCall[]) => {
+    const result = await sendTokenPaidCalls(calls, token, cost =>
+      window.confirm(
+        `Gas for this transaction costs up to ${formatUnits(cost.maxTokenCost, cost.decimals)} ${cost.symbol}. Sign and send it?`
+      )
+    );
+    if (result) {
+      setTokenPaidTransactionHash(result.transactionHash);
+    }
+  };
+
+  // Send a contract call through the chosen path, capturing the transaction hash like the forms
+  const handleContractCall = async (path: ContractCallPath, call: TransactionCall) => {
+    if (path === 'eoa') {
+      const transactionHash = await sendEoaCall(call);
+      if (transactionHash) setEoaTransactionHash(transactionHash);
+    } else if (path === 'sponsored') {
+      const result = await sendSponsoredCalls([call]);
+      if (result) setSponsoredTransactionHash(result.transactionHash);
+    } else {
+      const result = await sendSelfSponsoredCalls([call]);
+      if (result) setSelfSponsoredTransactionHash(result.transactionHash);
+    }
+  };
+
   // Bond MON to shMON handler
-  const handleBondMonToShmon = async (amount: string) => {
+  const handleBondMonToShmon = async (amount: string, source: BondSource) => {
     try {
-      const result = await bondMonToShmon(amount);
+      const result = await bondMonToShmon(amount, source);
       return result; // Return the result directly to the BondMonForm component
     } catch (error) {
       console.error('Error bonding MON to shMON:', error);
@@ -101,9 +170,27 @@ export default function Home() {
   // Demo options for the dropdown
   const demoOptions = [
     { value: 'paymaster', label: 'Paymaster Sponsored Transaction' },
+    { value: 'token-transfer', label: 'Sponsored Token Transfer' },
+    {
+      value: 'token-paid',
+      label: 'Pay Gas in Tokens',
+      disabled: !TOKEN_PAYMASTER_ADDRESS || smartAccount?.entryPoint.version !== '0.7',
+    },
     { value: 'self-sponsored', label: 'Self Sponsored Transaction', disabled: bondedShmon === '0' },
-    { value: 'bond-mon', label: 'Bond MON to shMON' },
+    { value: 'bond-mon', label: 'Bond & Unbond shMON' },
+    { value: 'policies', label: 'shMONAD Policies' },
     { value: 'eoa-direct', label: 'Direct EOA Transaction', disabled: !embeddedWallet },
+    { value: 'contract-call', label: 'Contract Interaction' },
+    { value: 'sponsorships', label: 'Sponsorship Activity' },
+  ];
+
+  // Account types the demos can run on
+  const accountModeOptions: { value: AccountMode; label: string }[] = [
+    { value: 'safe', label: 'Safe (4337)' },
+    { value: 'kernel', label: 'Kernel (4337)' },
+    { value: 'simple', label: 'Simple Account (4337)' },
+    { value: 'light', label: 'Light Account (4337)' },
+    { value: '7702', label: 'EOA (7702)' },
   ];
 
   // Handle demo selection change
@@ -111,6 +198,11 @@ export default function Home() {
     setSelectedDemo(e.target.value as DemoType);
   };
 
+  // Handle account mode change - the wallet manager rebuilds the smart account
+  const handleAccountModeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setAccountMode(e.target.value as AccountMode);
+  };
+
   // Rendering helper for loading state
   const renderLoadingIndicator = () => (
     <div className="flex items-center justify-center space-x-2">
@@ -135,7 +227,7 @@ export default function Home() {
             <TransactionForm
               title="Send Paymaster Sponsored (Transfer)"
               buttonText="Send Transaction"
-              onSubmit={handleSponsoredTransaction}
+              onSubmitCalls={handleSponsoredTransaction}
               loading={loading}
               disabled={!isSmartAccountReady}
               disabledReason={
@@ -151,6 +243,43 @@ export default function Home() {
           </div>
         );
 
+      case 'token-transfer':
+        return (
+          <div className={!isSmartAccountReady ? 'opacity-75 pointer-events-none' : ''}>
+            <TokenTransferForm
+              smartAccountAddress={smartAccount?.address}
+              tokenBalances={tokenBalances}
+              onTransfer={handleTokenTransfer}
+              loading={loading}
+              disabled={!isSmartAccountReady}
+              disabledReason={
+                !isSmartAccountReady ? 'Waiting for smart account to initialize' : undefined
+              }
+              txHash={sponsoredTxHash}
+              txStatus={sponsoredTxStatus}
+              transactionHash={sponsoredTransactionHash}
+            />
+          </div>
+        );
+
+      case 'token-paid':
+        return (
+          <div className={!isSmartAccountReady ? 'opacity-75 pointer-events-none' : ''}>
+            <TokenPaidForm
+              tokenBalances={tokenBalances}
+              onSubmitCalls={handleTokenPaidTransaction}
+              loading={loading}
+              disabled={!isSmartAccountReady}
+              disabledReason={
+                !isSmartAccountReady ? 'Waiting for smart account to initialize' : undefined
+              }
+              txHash={tokenPaidTxHash}
+              txStatus={tokenPaidTxStatus}
+              transactionHash={tokenPaidTransactionHash}
+            />
+          </div>
+        );
+
       case 'self-sponsored':
         return (
           <div className={!isSmartAccountReady ? 'opacity-75 pointer-events-none' : ''}>
@@ -158,7 +287,7 @@ export default function Home() {
               <TransactionForm
                 title="Send Self Sponsored (Transfer)"
                 buttonText="Send Transaction"
-                onSubmit={handleSelfSponsoredTransaction}
+                onSubmitCalls={handleSelfSponsoredTransaction}
                 loading={loading}
                 disabled={!isSmartAccountReady}
                 disabledReason={
@@ -188,11 +317,44 @@ export default function Home() {
 
       case 'bond-mon':
         return (
-          <div className={!isSmartAccountReady ? 'opacity-75 pointer-events-none' : ''}>
+          <div
+            className={`space-y-4 ${!isSmartAccountReady ? 'opacity-75 pointer-events-none' : ''}`}
+          >
             <BondMonForm
               bondedShmon={bondedShmon}
               onBond={handleBondMonToShmon}
               loading={loading || !isSmartAccountReady}
+              txStatus={txStatus}
+              smartAccountBalance={smartAccountBalance}
+              topUpConfig={topUpConfig}
+              onConfigureTopUp={configureBondTopUp}
+            />
+            <UnbondShmonForm
+              bondedShmon={bondedShmon}
+              unbondingShmon={unbondingShmon}
+              shmonadAddress={contractAddresses.shmonad || undefined}
+              smartAccountAddress={smartAccount?.address}
+              paymasterPolicyId={policyId}
+              onUnbond={unbondShmon}
+              onClaim={claimUnbondedShmon}
+              loading={loading || !isSmartAccountReady}
+              txHash={sponsoredTxHash}
+              txStatus={sponsoredTxStatus}
+            />
+          </div>
+        );
+
+      case 'policies':
+        return (
+          <div className={!isSmartAccountReady ? 'opacity-75 pointer-events-none' : ''}>
+            <PolicyExplorer
+              shmonadAddress={contractAddresses.shmonad || undefined}
+              paymasterAddress={contractAddresses.paymaster || undefined}
+              paymasterPolicyId={policyId}
+              smartAccountAddress={smartAccount?.address}
+              onBond={(amount, targetPolicyId) => bondMonToShmon(amount, 'eoa', targetPolicyId)}
+              loading={loading || !isSmartAccountReady}
+              txStatus={txStatus}
             />
           </div>
         );
@@ -232,6 +394,42 @@ export default function Home() {
           </div>
         );
 
+      case 'contract-call':
+        return (
+          <ContractCallForm
+            contractAddresses={contractAddresses}
+            onSend={handleContractCall}
+            loading={loading}
+            statuses={{
+              sponsored: {
+                txHash: sponsoredTxHash,
+                txStatus: sponsoredTxStatus,
+                transactionHash: sponsoredTransactionHash,
+              },
+              'self-sponsored': {
+                txHash: selfSponsoredTxHash,
+                txStatus: selfSponsoredTxStatus,
+                transactionHash: selfSponsoredTransactionHash,
+              },
+              eoa: { txHash, txStatus, transactionHash: eoaTransactionHash },
+            }}
+            unavailablePaths={{
+              sponsored: !isSmartAccountReady
+                ? 'Waiting for smart account to initialize'
+                : undefined,
+              'self-sponsored': !isSmartAccountReady
+                ? 'Waiting for smart account to initialize'
+                : bondedShmon === '0'
+                  ? 'Bond MON to shMON to enable self-sponsored transactions'
+                  : undefined,
+              eoa: !embeddedWallet ? 'Waiting for embedded wallet to initialize' : undefined,
+            }}
+          />
+        );
+
+      case 'sponsorships':
+        return <SponsorshipDashboard smartAccountAddress={smartAccount?.address} />;
+
       default:
         return <div>Select a demo to continue</div>;
     }
@@ -412,7 +610,10 @@ export default function Home() {
                           smartAccount={smartAccount}
                           walletBalance={walletBalance}
                           smartAccountBalance={smartAccountBalance}
+                          tokenBalances={tokenBalances}
                           bondedShmon={bondedShmon}
+                          bondedTransactionsLeft={bondedTransactionsLeft}
+                          hasTopUp={!!topUpConfig && topUpConfig.minBonded > 0n}
                         />
                         {isWalletInitializing && (
                           <div className="absolute inset-0 flex items-center justify-center bg-white bg-opacity-50 rounded-lg">
@@ -446,6 +647,46 @@ export default function Home() {
                         )}
                       </div>
 
+                      {/* Account Mode Dropdown */}
+                      <div className="mb-6">
+                        <label
+                          htmlFor="account-mode-select"
+                          className="block text-sm font-medium text-gray-700 mb-2"
+                        >
+                          Account Type:
+                        </label>
+                        <div className="relative">
+                          <select
+                            id="account-mode-select"
+                            value={accountMode}
+                            onChange={handleAccountModeChange}
+                            disabled={loading}
+                            className="block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md appearance-none"
+                          >
+                            {accountModeOptions.map(option => (
+                              <option key={option.value} value={option.value}>
+                                {option.label}
+                              </option>
+                            ))}
+                          </select>
+                          <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-gray-700">
+                            <svg
+                              className="h-5 w-5"
+                              xmlns="http://www.w3.org/2000/svg"
+                              viewBox="0 0 20 20"
+                              fill="currentColor"
+                              aria-hidden="true"
+                            >
+                              <path
+                                fillRule="evenodd"
+                                d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z"
+                                clipRule="evenodd"
+                              />
+                            </svg>
+                          </div>
+                        </div>
+                      </div>
+
                       {/* Demo Selection Dropdown */}
                       <div className="mb-6">
                         <label
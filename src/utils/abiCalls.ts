@@ -0,0 +1,238 @@
+import {
+  type Abi,
+  type AbiFunction,
+  type AbiParameter,
+  type Address,
+  type Hex,
+  encodeFunctionData,
+  isAddress,
+  isHex,
+  parseEther,
+  toFunctionSignature,
+} from 'viem';
+import addressHubAbi from '../abis/addressHub.json';
+import paymasterAbi from '../abis/paymaster.json';
+import paymasterV06Abi from '../abis/paymasterV06.json';
+import shmonadAbi from '../abis/shmonad.json';
+import { type TransactionCall } from './calls';
+import { ADDRESS_HUB, publicClient } from './config';
+
+/**
+ * An ABI bundled with the demo. `contract` names the contract address the wallet manager
+ * resolves for it, if any.
+ */
+export type PresetAbi = {
+  name: string;
+  abi: Abi;
+  contract?: 'paymaster' | 'shmonad';
+  address?: Address;
+};
+
+export const PRESET_ABIS: PresetAbi[] = [
+  { name: 'shMONAD', abi: shmonadAbi as Abi, contract: 'shmonad' },
+  { name: 'Paymaster (v0.7)', abi: paymasterAbi as Abi, contract: 'paymaster' },
+  { name: 'Paymaster (v0.6)', abi: paymasterV06Abi as Abi, contract: 'paymaster' },
+  { name: 'AddressHub', abi: addressHubAbi as Abi, address: ADDRESS_HUB },
+];
+
+/**
+ * Parse a pasted ABI - either a JSON ABI array or a build artifact with an `abi` field
+ */
+export function parseAbiJson(json: string): Abi {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('ABI is not valid JSON');
+  }
+
+  const abi =
+    parsed && typeof parsed === 'object' && 'abi' in parsed
+      ? (parsed as { abi: unknown }).abi
+      : parsed;
+  if (!Array.isArray(abi)) {
+    throw new Error('ABI must be a JSON array');
+  }
+  if (getAbiFunctions(abi as Abi).length === 0) {
+    throw new Error('ABI has no functions');
+  }
+  return abi as Abi;
+}
+
+/**
+ * The functions of an ABI, sorted by signature. Overloads stay separate entries.
+ */
+export function getAbiFunctions(abi: Abi): AbiFunction[] {
+  return abi
+    .filter((item): item is AbiFunction => item.type === 'function')
+    .sort((a, b) => toFunctionSignature(a).localeCompare(toFunctionSignature(b)));
+}
+
+/**
+ * Whether a function only reads state and can be called through the public client
+ */
+export function isReadFunction(fn: AbiFunction): boolean {
+  return fn.stateMutability === 'view' || fn.stateMutability === 'pure';
+}
+
+/**
+ * Convert a form value to the type viem expects for an ABI parameter. Arrays and tuples are
+ * entered as JSON; tuples may use either positional arrays or objects keyed by component name.
+ */
+export function parseAbiParameterValue(param: AbiParameter, raw: unknown): unknown {
+  const label = param.name || param.type;
+  const arrayMatch = param.type.match(/^(.*)\[(\d*)\]$/);
+
+  if (arrayMatch || param.type === 'tuple') {
+    const value = typeof raw === 'string' ? parseJsonInput(raw, label) : raw;
+
+    if (arrayMatch) {
+      const [, innerType, length] = arrayMatch;
+      if (!Array.isArray(value)) {
+        throw new Error(`${label}: expected a JSON array`);
+      }
+      if (length && value.length !== Number(length)) {
+        throw new Error(`${label}: expected ${length} elements`);
+      }
+      const inner = { ...param, type: innerType } as AbiParameter;
+      return value.map(element => parseAbiParameterValue(inner, element));
+    }
+
+    const components = (param as { components?: readonly AbiParameter[] }).components ?? [];
+    if (Array.isArray(value)) {
+      if (value.length !== components.length) {
+        throw new Error(`${label}: expected ${components.length} fields`);
+      }
+      return value.map((element, i) => parseAbiParameterValue(components[i], element));
+    }
+    if (!value || typeof value !== 'object') {
+      throw new Error(`${label}: expected a JSON array or object`);
+    }
+    return Object.fromEntries(
+      components.map((component, i) => {
+        const key = component.name ?? String(i);
+        return [key, parseAbiParameterValue(component, (value as Record<string, unknown>)[key])];
+      })
+    );
+  }
+
+  const text = typeof raw === 'string' ? raw.trim() : raw === undefined ? '' : String(raw);
+
+  if (/^u?int\d*$/.test(param.type)) {
+    // BigInt('') is 0n, so an empty field would silently encode a zero
+    if (text === '') {
+      throw new Error(`${label}: expected an integer`);
+    }
+    try {
+      return BigInt(text);
+    } catch {
+      throw new Error(`${label}: expected an integer`);
+    }
+  }
+  if (param.type === 'bool') {
+    if (text !== 'true' && text !== 'false') {
+      throw new Error(`${label}: expected true or false`);
+    }
+    return text === 'true';
+  }
+  if (param.type === 'address') {
+    if (!isAddress(text)) {
+      throw new Error(`${label}: invalid address`);
+    }
+    return text;
+  }
+  if (param.type.startsWith('bytes')) {
+    const size = Number(param.type.slice(5)) || 0;
+    if (!isHex(text) || text.length % 2 !== 0 || (size && text.length !== 2 + size * 2)) {
+      throw new Error(`${label}: expected ${size ? `${size} bytes of` : ''} 0x-prefixed hex`);
+    }
+    return text;
+  }
+  if (param.type === 'string') {
+    return typeof raw === 'string' ? raw : text;
+  }
+
+  throw new Error(`${label}: unsupported type ${param.type}`);
+}
+
+function parseJsonInput(raw: string, label: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new Error(`${label}: invalid JSON`);
+  }
+}
+
+/**
+ * Parse the form inputs of a function into its arguments
+ */
+export function parseFunctionArgs(fn: AbiFunction, inputs: string[]): unknown[] {
+  return fn.inputs.map((param, i) => parseAbiParameterValue(param, inputs[i] ?? ''));
+}
+
+/**
+ * Build a call to a contract function from form inputs. Throws with the first invalid input.
+ */
+export function buildContractCall({
+  to,
+  fn,
+  inputs,
+  value = '0',
+}: {
+  to: string;
+  fn: AbiFunction;
+  inputs: string[];
+  value?: string;
+}): TransactionCall {
+  if (!isAddress(to)) {
+    throw new Error('Invalid contract address');
+  }
+
+  let parsedValue: bigint;
+  try {
+    parsedValue = parseEther(value.trim() || '0');
+  } catch {
+    throw new Error('Invalid value');
+  }
+  if (parsedValue > 0n && fn.stateMutability !== 'payable') {
+    throw new Error(`${fn.name} is not payable`);
+  }
+
+  // Encode against the single function so overloads resolve to the selected one
+  const data: Hex = encodeFunctionData({
+    abi: [fn],
+    functionName: fn.name,
+    args: parseFunctionArgs(fn, inputs),
+  });
+
+  return { to, value: parsedValue, data };
+}
+
+/**
+ * Call a read function through the public client and format its result for display
+ */
+export async function readContractFunction({
+  to,
+  fn,
+  inputs,
+}: {
+  to: string;
+  fn: AbiFunction;
+  inputs: string[];
+}): Promise<string> {
+  if (!isAddress(to)) {
+    throw new Error('Invalid contract address');
+  }
+
+  const result = await publicClient.readContract({
+    address: to,
+    abi: [fn],
+    functionName: fn.name,
+    args: parseFunctionArgs(fn, inputs),
+  });
+  return JSON.stringify(
+    result,
+    (_, value) => (typeof value === 'bigint' ? value.toString() : value),
+    2
+  );
+}
@@ -0,0 +1,85 @@
+import { type LocalAccount, type PrivateKeyAccount, type PublicClient } from 'viem';
+import { toSimple7702SmartAccount, type SmartAccount } from 'viem/account-abstraction';
+import {
+  toKernelSmartAccount,
+  toLightSmartAccount,
+  toSafeSmartAccount,
+  toSimpleSmartAccount,
+} from 'permissionless/accounts';
+import { ENTRY_POINT, type AccountMode } from './config';
+
+// Smart account implementations deployed behind ENTRY_POINT - every account mode except 7702
+export type SmartAccountType = Exclude<AccountMode, '7702'>;
+export const SMART_ACCOUNT_TYPES: SmartAccountType[] = ['safe', 'kernel', 'simple', 'light'];
+
+/**
+ * Simple7702 takes a private key account as its owner, since it signs raw hashes. A Privy embedded
+ * wallet has the same `sign`, backed by its secp256k1_sign method, but external wallets do not.
+ * EIP-7702 authorizations are signed through Privy and passed in with each operation, so the owner
+ * never signs one itself.
+ */
+function toRawSigningOwner(owner: LocalAccount): PrivateKeyAccount {
+  const { sign } = owner;
+  if (!sign) {
+    throw new Error(
+      'EIP-7702 mode needs an owner that can sign raw hashes, such as a Privy embedded wallet'
+    );
+  }
+
+  return {
+    ...owner,
+    source: 'privateKey',
+    sign,
+    async signAuthorization() {
+      throw new Error('Sign EIP-7702 authorizations with Privy and pass them to the operation');
+    },
+  };
+}
+
+/**
+ * Build the smart account for an account mode, owned by the embedded wallet.
+ *
+ * Both the client and the paymaster route build accounts here, so the route derives the same
+ * counterfactual addresses the client sends from.
+ */
+export async function createSmartAccount(
+  accountMode: AccountMode,
+  { client, owner }: { client: PublicClient; owner: LocalAccount }
+): Promise<SmartAccount> {
+  switch (accountMode) {
+    case 'safe':
+      return toSafeSmartAccount({
+        client,
+        entryPoint: ENTRY_POINT,
+        owners: [owner],
+        version: '1.4.1',
+      });
+
+    case 'kernel':
+      // ZeroDev Kernel with the ECDSA validator - v0.2 on EntryPoint v0.6, v0.3 on v0.7
+      return toKernelSmartAccount({
+        client,
+        entryPoint: ENTRY_POINT,
+        owners: [owner],
+      });
+
+    case 'simple':
+      return toSimpleSmartAccount({
+        client,
+        entryPoint: ENTRY_POINT,
+        owner,
+      });
+
+    case 'light':
+      return toLightSmartAccount({
+        client,
+        entryPoint: ENTRY_POINT,
+        owner,
+        version: ENTRY_POINT.version === '0.6' ? '1.1.0' : '2.0.0',
+      });
+
+    case '7702':
+      // The embedded EOA delegates to Simple7702Account on EntryPoint v0.8
+      return toSimple7702SmartAccount({ client, owner: toRawSigningOwner(owner) });
+  }
+}
@@ -0,0 +1,78 @@
+import { type Address, type PublicClient, createPublicClient, http, zeroAddress } from 'viem';
+import { monadTestnet } from 'viem/chains';
+import addressHubAbi from '../abis/addressHub.json';
+import {
+  ADDRESS_HUB,
+  PAYMASTER_ADDRESS,
+  PAYMASTER_V08_ADDRESS,
+  type EntryPointVersion,
+} from './config';
+import { logger } from './logger';
+
+// Use a backend-specific RPC URL (not prefixed with NEXT_PUBLIC_)
+export const BACKEND_RPC_URL = process.env.RPC_URL || 'https://rpc.ankr.com/monad_testnet';
+
+// Client the API routes read the chain with
+export const backendPublicClient = createPublicClient({
+  chain: monadTestnet,
+  transport: http(BACKEND_RPC_URL),
+});
+
+/**
+ * Read the AddressHub's paymaster4337, or null when the hub lists none. Throws when the read fails.
+ */
+export async function readHubPaymaster(
+  client: PublicClient,
+  addressHub: Address
+): Promise<Address | null> {
+  const paymaster = (await client.readContract({
+    address: addressHub,
+    abi: addressHubAbi,
+    functionName: 'paymaster4337',
+    args: [],
+  })) as Address;
+  return paymaster && paymaster !== zeroAddress ? paymaster : null;
+}
+
+/**
+ * The paymaster for an EntryPoint version: NEXT_PUBLIC_PAYMASTER_V08_ADDRESS on v0.8, otherwise
+ * NEXT_PUBLIC_PAYMASTER_ADDRESS or, on v0.7, the AddressHub's paymaster4337. Logs and returns
+ * null when there is none.
+ */
+export async function getPaymasterAddress(
+  entryPointVersion: EntryPointVersion
+): Promise<Address | null> {
+  // The v0.8 paymaster is a separate deployment the AddressHub does not list
+  if (entryPointVersion === '0.8') {
+    if (!PAYMASTER_V08_ADDRESS) {
+      logger.error('NEXT_PUBLIC_PAYMASTER_V08_ADDRESS must be set for EntryPoint v0.8');
+      return null;
+    }
+    return PAYMASTER_V08_ADDRESS;
+  }
+
+  if (PAYMASTER_ADDRESS) {
+    return PAYMASTER_ADDRESS;
+  }
+
+  if (entryPointVersion !== '0.7') {
+    logger.error('NEXT_PUBLIC_PAYMASTER_ADDRESS must be set for EntryPoint v0.6');
+    return null;
+  }
+
+  if (!ADDRESS_HUB) {
+    logger.error('ADDRESS_HUB is not defined. Please check your environment variables.');
+    return null;
+  }
+
+  try {
+    const paymasterAddress = await readHubPaymaster(backendPublicClient, ADDRESS_HUB);
+    if (!paymasterAddress) {
+      logger.error('Invalid paymaster address read from contract');
+    }
+    return paymasterAddress;
+  } catch (error) {
+    logger.error('Error reading paymaster address:', error);
+    return null;
+  }
+}
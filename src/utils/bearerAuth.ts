@@ -0,0 +1,10 @@
+import crypto from 'crypto';
+
+/**
+ * Whether an Authorization header carries the expected bearer token, compared in constant time
+ */
+export function isBearerAuthorized(authorization: string | undefined, token: string): boolean {
+  const expected = Buffer.from(`Bearer ${token}`);
+  const actual = Buffer.from(authorization ?? '');
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
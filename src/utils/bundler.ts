@@ -2,24 +2,9 @@ import {
   type BundlerClient,
   type SmartAccount,
   createBundlerClient,
-  type UserOperation,
-  type GetPaymasterDataParameters,
-  type GetPaymasterDataReturnType,
-  entryPoint06Address,
-  entryPoint07Address,
-  type BundlerClientConfig,
 } from 'viem/account-abstraction';
-import {
-  http,
-  type Client,
-  type Hex,
-  hexToBigInt,
-  type Transport,
-  type Chain,
-  type Address,
-  type PublicClient,
-} from 'viem';
-import { MONAD_CHAIN, SHBUNDLER_URL, ENTRY_POINT_ADDRESS } from './config';
+import { http, isAddressEqual, type Client } from 'viem';
+import { MONAD_CHAIN, SHBUNDLER_URL, ENTRY_POINT, ENTRY_POINT_V08 } from './config';
 import { logger, formatUserOp } from './logger';
 
 // Type for ShBundler which adds our custom actions
@@ -51,32 +36,19 @@ export interface GasPriceResult {
   slow: GasPrices;
 }
 
-// Type to handle "prettify" in TypeScript (similar to Pimlico's implementation)
-type Prettify<T> = {
-  [K in keyof T]: T[K];
-} & {};
-
-// Define the configuration for ShBundlerClient with EntryPoint version generics
-export type ShBundlerClientConfig<
-  entryPointVersion extends '0.6' | '0.7' = '0.7',
-  transport extends Transport = Transport,
-  chain extends Chain | undefined = Chain | undefined,
-  account extends SmartAccount | undefined = SmartAccount | undefined,
-> = Prettify<{
-  transport: Transport;
-  account?: account;
-  client?: Client;
-  chain?: chain;
-  entryPoint?: {
-    address: Address;
-    version: entryPointVersion;
-  };
-  paymaster?: {
-    getPaymasterData?: (
-      parameters: GetPaymasterDataParameters
-    ) => Promise<GetPaymasterDataReturnType>;
-  };
-}>;
+// The bundler clients take their EntryPoint from the account, so it must be one the app supports:
+// the configured one for Safes, or v0.8 for EIP-7702 accounts
+function assertConfiguredEntryPoint(smartAccount: SmartAccount) {
+  const { address, version } = smartAccount.entryPoint;
+  const isSupported = [ENTRY_POINT, ENTRY_POINT_V08].some(
+    entryPoint => version === entryPoint.version && isAddressEqual(address, entryPoint.address)
+  );
+  if (!isSupported) {
+    throw new Error(
+      `Smart account uses EntryPoint ${version} (${address}), but the app supports ${ENTRY_POINT.version} (Safe) and ${ENTRY_POINT_V08.version} (EIP-7702)`
+    );
+  }
+}
 
 // Create our custom ShBundler with added methods
 function createShBundler(client: BundlerClient): ShBundler {
@@ -193,6 +165,7 @@ export function initShBundler(
   mode: 'sponsor' | 'user' = 'sponsor'
 ): ShBundler {
   logger.info(`Creating ShBundler with ${mode} mode paymaster`);
+  assertConfiguredEntryPoint(smartAccount);
 
   // Create a bundler client without any BigInt values in paymasterContext
   // to prevent "Do not know how to serialize a BigInt" errors
@@ -216,6 +189,7 @@ export function initShBundler(
 // Basic bundler without paymaster for non-sponsored operations
 export function initBasicBundler(smartAccount: SmartAccount, publicClient: Client): ShBundler {
   logger.info('Creating basic ShBundler without paymaster');
+  assertConfiguredEntryPoint(smartAccount);
 
   return createShBundler(
     createBundlerClient({
@@ -0,0 +1,53 @@
+import { isAddress, isHex, parseEther, type Address, type Hex } from 'viem';
+
+/**
+ * A call the smart account executes. Several calls are batched into one UserOperation by the
+ * account's own encoding (MultiSend for Safe, executeBatch for the others).
+ */
+export type TransactionCall = {
+  to: Address;
+  value: bigint;
+  data: Hex;
+};
+
+/**
+ * A call as typed into a form - recipient, amount in MON and optional calldata
+ */
+export type CallInput = {
+  to: string;
+  amount: string;
+  data: string;
+};
+
+export const EMPTY_CALL_INPUT: CallInput = { to: '', amount: '0', data: '' };
+
+/**
+ * Parse form rows into calls. Throws an error naming the first invalid row.
+ */
+export function parseCallInputs(inputs: CallInput[]): TransactionCall[] {
+  if (inputs.length === 0) {
+    throw new Error('Add at least one call');
+  }
+
+  return inputs.map((input, index) => {
+    const row = `Call ${index + 1}`;
+    const to = input.to.trim();
+    const data = input.data.trim() || '0x';
+
+    if (!isAddress(to)) {
+      throw new Error(`${row}: invalid recipient address`);
+    }
+    if (!isHex(data) || data.length % 2 !== 0) {
+      throw new Error(`${row}: calldata must be a 0x-prefixed hex string`);
+    }
+
+    let value: bigint;
+    try {
+      value = parseEther(input.amount.trim() || '0');
+    } catch {
+      throw new Error(`${row}: invalid amount`);
+    }
+
+    return { to, value, data };
+  });
+}
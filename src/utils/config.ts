@@ -1,5 +1,9 @@
-import { createPublicClient, http, type Address, type Chain } from 'viem';
-import { entryPoint07Address } from 'viem/account-abstraction';
+import { createPublicClient, http, isAddress, type Address, type Chain } from 'viem';
+import {
+  entryPoint06Address,
+  entryPoint07Address,
+  entryPoint08Address,
+} from 'viem/account-abstraction';
 
 // Define chain configuration for Monad Testnet
 export const MONAD_TESTNET_CHAIN_ID = Number(process.env.NEXT_PUBLIC_CHAIN_ID || '10143');
@@ -8,7 +12,51 @@ export const SHBUNDLER_URL =
   process.env.NEXT_PUBLIC_SHBUNDLER_URL ||
   'https://monad-testnet.4337-shbundler-fra.fastlane-labs.xyz';
 export const ADDRESS_HUB = process.env.NEXT_PUBLIC_ADDRESS_HUB as Address;
-export const ENTRY_POINT_ADDRESS = entryPoint07Address as `0x${string}`;
+
+// EntryPoint used by the Safe accounts, the bundler clients and the paymaster route
+export type EntryPointVersion = '0.6' | '0.7' | '0.8';
+const entryPointVersion = process.env.NEXT_PUBLIC_ENTRY_POINT_VERSION || '0.7';
+if (entryPointVersion !== '0.6' && entryPointVersion !== '0.7') {
+  throw new Error(`Unsupported NEXT_PUBLIC_ENTRY_POINT_VERSION: ${entryPointVersion}`);
+}
+export const ENTRY_POINT_VERSION: '0.6' | '0.7' = entryPointVersion;
+export const ENTRY_POINT_ADDRESS = (
+  ENTRY_POINT_VERSION === '0.6' ? entryPoint06Address : entryPoint07Address
+) as `0x${string}`;
+export const ENTRY_POINT = { address: ENTRY_POINT_ADDRESS, version: ENTRY_POINT_VERSION };
+
+// The AddressHub only lists the v0.7 paymaster, so v0.6 deployments must set this
+export const PAYMASTER_ADDRESS = process.env.NEXT_PUBLIC_PAYMASTER_ADDRESS as Address | undefined;
+
+// Account the demo builds: a smart account on ENTRY_POINT, or the embedded EOA delegated via EIP-7702
+export const ACCOUNT_MODES = ['safe', 'kernel', 'simple', 'light', '7702'] as const;
+export type AccountMode = (typeof ACCOUNT_MODES)[number];
+const accountMode = process.env.NEXT_PUBLIC_ACCOUNT_MODE || 'safe';
+if (!ACCOUNT_MODES.includes(accountMode as AccountMode)) {
+  throw new Error(`Unsupported NEXT_PUBLIC_ACCOUNT_MODE: ${accountMode}`);
+}
+export const DEFAULT_ACCOUNT_MODE = accountMode as AccountMode;
+
+// EIP-7702 accounts (Simple7702Account) only run on EntryPoint v0.8
+export const ENTRY_POINT_V08 = { address: entryPoint08Address, version: '0.8' as const };
+
+// A Fastlane paymaster is bound to one EntryPoint, so 7702 mode needs its own v0.8 deployment
+export const PAYMASTER_V08_ADDRESS = process.env.NEXT_PUBLIC_PAYMASTER_V08_ADDRESS as
+  Address | undefined;
+
+// Paymaster that takes gas payment in ERC-20s (mode 0x02) on the v0.7 EntryPoint - token mode is
+// off when unset
+export const TOKEN_PAYMASTER_ADDRESS = process.env.NEXT_PUBLIC_TOKEN_PAYMASTER_ADDRESS as
+  Address | undefined;
+
+// Extra ERC-20 tokens whose balances the wallet status shows, next to shMON
+export const TOKEN_ADDRESSES = (process.env.NEXT_PUBLIC_TOKEN_ADDRESSES || '')
+  .split(',')
+  .map(address => address.trim())
+  .filter(address => isAddress(address)) as Address[];
+
+// WalletStatus warns when bonded shMON covers fewer self-sponsored transactions than this
+export const LOW_BOND_TRANSACTIONS = Number(process.env.NEXT_PUBLIC_LOW_BOND_TRANSACTIONS || '10');
 
 // UI Configuration flags
 export const UI_CONFIG = {
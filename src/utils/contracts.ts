@@ -1,4 +1,16 @@
-import { Client, getContract, encodeFunctionData, type Address, type Hex } from 'viem';
+import {
+  Client,
+  getContract,
+  encodeFunctionData,
+  encodePacked,
+  type Abi,
+  type Address,
+  type Hex,
+} from 'viem';
+import paymasterAbi from '../abis/paymaster.json';
+import paymasterV06Abi from '../abis/paymasterV06.json';
+import { type EntryPointVersion } from './config';
+import { type TokenQuote } from './tokenPaymaster';
 
 // Function to initialize a contract with public and account clients
 export async function initContract(
@@ -17,19 +29,25 @@ export async function initContract(
   });
 }
 
+// Paymaster ABI for an EntryPoint version - v0.6 takes unpacked UserOperations
+export function getPaymasterAbi(entryPointVersion: EntryPointVersion): Abi {
+  return (entryPointVersion === '0.6' ? paymasterV06Abi : paymasterAbi) as Abi;
+}
+
 // Function to generate paymaster data based on the mode
 export function paymasterMode(
-  mode: 'user' | 'sponsor',
+  mode: 'user' | 'sponsor' | 'token',
   validUntil?: bigint,
   validAfter?: bigint,
   sponsorSignature?: Hex,
-  userClient?: Client
+  payor?: Address,
+  tokenQuote?: TokenQuote
 ) {
   if (mode === 'user') {
     return '0x00' as Hex;
-  } else {
-    if (userClient === undefined) {
-      throw new Error('userClient is undefined');
+  } else if (mode === 'token') {
+    if (tokenQuote === undefined) {
+      throw new Error('tokenQuote is undefined');
     }
     if (validUntil === undefined) {
       throw new Error('validUntil is undefined');
@@ -41,9 +59,31 @@ export function paymasterMode(
       throw new Error('sponsorSignature is undefined');
     }
 
-    const accountAddress = userClient?.account?.address;
-    if (!accountAddress) {
-      throw new Error('userClient.account is undefined');
+    // The sender pays in tokenQuote.token - the signed quote replaces the payor address
+    return encodePacked(
+      ['uint8', 'address', 'uint48', 'uint48', 'uint256', 'uint256', 'bytes'],
+      [
+        2,
+        tokenQuote.token,
+        Number(validUntil),
+        Number(validAfter),
+        tokenQuote.exchangeRate,
+        tokenQuote.maxTokenCost,
+        sponsorSignature,
+      ]
+    );
+  } else {
+    if (payor === undefined) {
+      throw new Error('payor is undefined');
+    }
+    if (validUntil === undefined) {
+      throw new Error('validUntil is undefined');
+    }
+    if (validAfter === undefined) {
+      throw new Error('validAfter is undefined');
+    }
+    if (sponsorSignature === undefined) {
+      throw new Error('sponsorSignature is undefined');
     }
 
     // Convert BigInt values to hex strings without '0x' prefix
@@ -51,6 +91,6 @@ export function paymasterMode(
     const validAfterHex = validAfter.toString(16).padStart(12, '0');
 
     // Combine all parts into a single hex string
-    return `0x01${accountAddress.slice(2)}${validUntilHex}${validAfterHex}${sponsorSignature.slice(2)}` as Hex;
+    return `0x01${payor.slice(2)}${validUntilHex}${validAfterHex}${sponsorSignature.slice(2)}` as Hex;
   }
 }
@@ -0,0 +1,609 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import {
+  type Address,
+  type Hex,
+  type PublicClient,
+  createWalletClient,
+  formatEther,
+  http,
+  isAddressEqual,
+  parseEther,
+} from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { monadTestnet } from 'viem/chains';
+import { BACKEND_RPC_URL, backendPublicClient, getPaymasterAddress } from './backendClient';
+import { ENTRY_POINT, PAYMASTER_V08_ADDRESS, type EntryPointVersion } from './config';
+import { getPaymasterAbi } from './contracts';
+import { logger } from './logger';
+
+// ok: at or above the low threshold, low: below it, critical: below the critical threshold
+export type DepositLevel = 'ok' | 'low' | 'critical';
+
+/**
+ * Something the watcher reports: the deposit changed level, or a refill was sent or failed
+ */
+export type DepositAlert = {
+  type: 'level' | 'refill' | 'refill-failed';
+  level: DepositLevel;
+  paymaster: Address;
+  deposit: bigint;
+  message: string;
+  transactionHash?: Hex;
+  timestamp: number; // unix seconds
+};
+
+/**
+ * Delivers deposit alerts. Implement this to page an on-call channel.
+ */
+export interface DepositNotifier {
+  notify(alert: DepositAlert): Promise<void>;
+}
+
+/**
+ * Deposit thresholds, in wei
+ */
+export type DepositThresholds = {
+  low: bigint;
+  critical: bigint;
+};
+
+/**
+ * One refill from the treasury. It is recorded before the deposit is sent, so `transactionHash`
+ * is null until the transaction has been broadcast.
+ */
+export type DepositRefill = {
+  id: string;
+  paymaster: Address;
+  amount: bigint;
+  transactionHash: Hex | null;
+  timestamp: number; // unix seconds
+};
+
+/**
+ * Storage for the refill history the refill cap is checked against. Implement this to share the
+ * cap between server instances.
+ */
+export interface DepositRefillStore {
+  listRefills(since: number): Promise<DepositRefill[]>;
+  // Add a refill, or replace the one with the same id
+  saveRefill(refill: DepositRefill): Promise<void>;
+  removeRefill(id: string): Promise<void>;
+  pruneRefills(before: number): Promise<void>;
+}
+
+/**
+ * Automatic refills: top the deposit up to `target` from the treasury once it is low, sending at
+ * most `maxPerWindow` wei over any rolling `windowSeconds`
+ */
+export type DepositRefillConfig = {
+  target: bigint;
+  maxPerWindow: bigint;
+  windowSeconds: number;
+  store: DepositRefillStore;
+  // Broadcasts `deposit()` on the paymaster with the amount as value, resolving to the tx hash
+  sendDeposit: (paymaster: Address, amount: bigint) => Promise<Hex>;
+  // Resolves once the deposit transaction succeeded, throws when it reverted
+  waitForDeposit: (transactionHash: Hex) => Promise<void>;
+};
+
+export type DepositWatcherState = {
+  paymaster: Address | null;
+  deposit: bigint | null;
+  level: DepositLevel | null;
+  checkedAt: number | null; // unix seconds
+  // Refills of this paymaster within the refill window, as of the last check
+  refills: DepositRefill[];
+};
+
+const DEFAULT_INTERVAL_SECONDS = 60;
+const DAY_SECONDS = 86400;
+
+// Watchers in one process may share a treasury and its refill cap, so refills run one at a time
+let refillQueue: Promise<unknown> = Promise.resolve();
+function withRefillLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = refillQueue.then(fn, fn);
+  refillQueue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * In-memory refill history - the refill cap resets whenever the server restarts
+ */
+export function createMemoryDepositRefillStore(): DepositRefillStore {
+  let refills: DepositRefill[] = [];
+
+  return {
+    async listRefills(since) {
+      return refills.filter(refill => refill.timestamp > since);
+    },
+    async saveRefill(refill) {
+      refills = [...refills.filter(entry => entry.id !== refill.id), refill];
+    },
+    async removeRefill(id) {
+      refills = refills.filter(refill => refill.id !== id);
+    },
+    async pruneRefills(before) {
+      refills = refills.filter(refill => refill.timestamp > before);
+    },
+  };
+}
+
+/**
+ * JSON file refill history - survives restarts of a single server instance
+ */
+export function createFileDepositRefillStore(filePath: string): DepositRefillStore {
+  const memory = createMemoryDepositRefillStore();
+  let loaded = false;
+
+  async function load() {
+    if (loaded) return;
+    loaded = true;
+
+    if (!fs.existsSync(filePath)) return;
+
+    const stored = JSON.parse(await fs.promises.readFile(filePath, 'utf8')) as Array<
+      Omit<DepositRefill, 'amount'> & { amount: string }
+    >;
+    for (const refill of stored) {
+      await memory.saveRefill({ ...refill, amount: BigInt(refill.amount) });
+    }
+  }
+
+  async function save() {
+    const refills = await memory.listRefills(0);
+    await fs.promises.writeFile(
+      filePath,
+      JSON.stringify(
+        refills.map(refill => ({ ...refill, amount: refill.amount.toString() })),
+        null,
+        2
+      )
+    );
+  }
+
+  return {
+    async listRefills(since) {
+      await load();
+      return memory.listRefills(since);
+    },
+    async saveRefill(refill) {
+      await load();
+      await memory.saveRefill(refill);
+      await save();
+    },
+    async removeRefill(id) {
+      await load();
+      await memory.removeRefill(id);
+      await save();
+    },
+    async pruneRefills(before) {
+      await load();
+      await memory.pruneRefills(before);
+      await save();
+    },
+  };
+}
+
+/**
+ * Pick the refill history store from the environment: a JSON file when DEPOSIT_REFILL_STORE_PATH
+ * is set, otherwise memory.
+ */
+export function createDepositRefillStoreFromEnv(): DepositRefillStore {
+  const filePath = process.env.DEPOSIT_REFILL_STORE_PATH;
+  if (filePath) {
+    logger.info('Using file deposit refill store', filePath);
+    return createFileDepositRefillStore(filePath);
+  }
+  return createMemoryDepositRefillStore();
+}
+
+/**
+ * Notifier that writes alerts to the server log
+ */
+export function createLogNotifier(): DepositNotifier {
+  return {
+    async notify(alert) {
+      const log = alert.type === 'refill' || alert.level === 'ok' ? logger.info : logger.error;
+      log(`Paymaster deposit alert: ${alert.message}`, {
+        paymaster: alert.paymaster,
+        deposit: formatEther(alert.deposit),
+        transactionHash: alert.transactionHash,
+      });
+    },
+  };
+}
+
+/**
+ * Notifier that POSTs each alert as JSON to a webhook, with amounts as wei strings
+ */
+export function createWebhookNotifier(url: string): DepositNotifier {
+  return {
+    async notify(alert) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...alert, deposit: alert.deposit.toString() }),
+      });
+      if (!response.ok) {
+        throw new Error(`Deposit alert webhook answered ${response.status}`);
+      }
+    },
+  };
+}
+
+/**
+ * Notifier that keeps the latest alerts in memory - a local stand-in for a paging service
+ */
+export function createMemoryNotifier(limit = 50): DepositNotifier & { alerts: DepositAlert[] } {
+  const alerts: DepositAlert[] = [];
+  return {
+    alerts,
+    async notify(alert) {
+      alerts.unshift(alert);
+      alerts.splice(limit);
+    },
+  };
+}
+
+/**
+ * Deliver every alert to each notifier. A failing notifier is logged and does not stop the others.
+ */
+export function combineNotifiers(notifiers: DepositNotifier[]): DepositNotifier {
+  return {
+    async notify(alert) {
+      await Promise.all(
+        notifiers.map(notifier =>
+          notifier.notify(alert).catch(error => {
+            logger.error('Deposit notifier failed:', error);
+          })
+        )
+      );
+    },
+  };
+}
+
+/**
+ * The level a deposit is at
+ */
+export function getDepositLevel(deposit: bigint, thresholds: DepositThresholds): DepositLevel {
+  if (deposit < thresholds.critical) return 'critical';
+  if (deposit < thresholds.low) return 'low';
+  return 'ok';
+}
+
+/**
+ * Polls the paymaster's EntryPoint deposit via `getDeposit`. It alerts when the deposit changes
+ * level and, when `refill` is set, tops up a low deposit from the treasury within the rate cap.
+ */
+export function createDepositWatcher({
+  client,
+  getPaymasterAddress,
+  entryPointVersion,
+  thresholds,
+  notifier,
+  refill,
+  intervalSeconds = DEFAULT_INTERVAL_SECONDS,
+}: {
+  client: PublicClient;
+  getPaymasterAddress: () => Promise<Address | null>;
+  entryPointVersion: EntryPointVersion;
+  thresholds: DepositThresholds;
+  notifier: DepositNotifier;
+  refill?: DepositRefillConfig;
+  intervalSeconds?: number;
+}) {
+  const state: DepositWatcherState = {
+    paymaster: null,
+    deposit: null,
+    level: null,
+    checkedAt: null,
+    refills: [],
+  };
+  let checking: Promise<DepositWatcherState> | null = null;
+  let timer: ReturnType<typeof setInterval> | null = null;
+
+  const readDeposit = async (paymaster: Address) =>
+    (await client.readContract({
+      address: paymaster,
+      abi: getPaymasterAbi(entryPointVersion),
+      functionName: 'getDeposit',
+    })) as bigint;
+
+  /**
+   * Top up a low deposit to the refill target, capped by what the window has left. The refill is
+   * counted before it is sent and stays counted once it has a transaction hash, even if waiting
+   * for the receipt fails.
+   */
+  async function refillDeposit(refill: DepositRefillConfig, paymaster: Address) {
+    // Re-read under the lock, since a refill that held it may have topped the deposit up
+    const deposit = await readDeposit(paymaster);
+    if (deposit >= refill.target) return;
+
+    const now = Math.floor(Date.now() / 1000);
+    const windowStart = now - refill.windowSeconds;
+    await refill.store.pruneRefills(windowStart);
+    const spent = (await refill.store.listRefills(windowStart)).reduce(
+      (total, entry) => total + entry.amount,
+      0n
+    );
+    const remaining = refill.maxPerWindow > spent ? refill.maxPerWindow - spent : 0n;
+    const amount = refill.target - deposit < remaining ? refill.target - deposit : remaining;
+    if (amount <= 0n) {
+      logger.warn('Deposit refill skipped, the refill cap is used up', {
+        paymaster,
+        spent: formatEther(spent),
+      });
+      return;
+    }
+
+    const level = getDepositLevel(deposit, thresholds);
+    const entry: DepositRefill = {
+      id: crypto.randomUUID(),
+      paymaster,
+      amount,
+      transactionHash: null,
+      timestamp: now,
+    };
+    await refill.store.saveRefill(entry);
+
+    let transactionHash: Hex;
+    try {
+      transactionHash = await refill.sendDeposit(paymaster, amount);
+    } catch (error) {
+      // Nothing was broadcast, so the amount goes back to the cap
+      await refill.store.removeRefill(entry.id);
+      await notifier.notify({
+        type: 'refill-failed',
+        level,
+        paymaster,
+        deposit,
+        message: `Deposit refill of ${formatEther(amount)} MON failed: ${(error as Error).message}`,
+        timestamp: now,
+      });
+      return;
+    }
+    await refill.store.saveRefill({ ...entry, transactionHash });
+
+    try {
+      await refill.waitForDeposit(transactionHash);
+      await notifier.notify({
+        type: 'refill',
+        level,
+        paymaster,
+        deposit,
+        message: `Refilled the deposit with ${formatEther(amount)} MON`,
+        transactionHash,
+        timestamp: now,
+      });
+    } catch (error) {
+      await notifier.notify({
+        type: 'refill-failed',
+        level,
+        paymaster,
+        deposit,
+        message: `Deposit refill of ${formatEther(amount)} MON failed: ${(error as Error).message}`,
+        transactionHash,
+        timestamp: now,
+      });
+    }
+  }
+
+  async function runCheck(): Promise<DepositWatcherState> {
+    const paymaster = await getPaymasterAddress();
+    if (!paymaster) {
+      logger.warn('Deposit watcher has no paymaster address');
+      return state;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const deposit = await readDeposit(paymaster);
+    const level = getDepositLevel(deposit, thresholds);
+    const previousLevel = state.level;
+    Object.assign(state, { paymaster, deposit, level, checkedAt: now });
+
+    // Alert on changes only, so a low deposit does not page on every poll
+    if (level !== previousLevel && (previousLevel !== null || level !== 'ok')) {
+      await notifier.notify({
+        type: 'level',
+        level,
+        paymaster,
+        deposit,
+        message:
+          level === 'ok'
+            ? `Deposit recovered to ${formatEther(deposit)} MON`
+            : `Deposit is ${level}: ${formatEther(deposit)} MON, below ${formatEther(
+                level === 'critical' ? thresholds.critical : thresholds.low
+              )} MON`,
+        timestamp: now,
+      });
+    }
+
+    if (refill) {
+      if (level !== 'ok') {
+        await withRefillLock(() => refillDeposit(refill, paymaster));
+      }
+      state.refills = (await refill.store.listRefills(now - refill.windowSeconds)).filter(entry =>
+        isAddressEqual(entry.paymaster, paymaster)
+      );
+    }
+    return state;
+  }
+
+  /**
+   * Check the deposit now. Concurrent callers share one check.
+   */
+  async function check() {
+    checking ??= runCheck().finally(() => {
+      checking = null;
+    });
+    return checking;
+  }
+
+  return {
+    check,
+    getState: () => state,
+    start() {
+      if (timer) return;
+      logger.info(
+        `Watching the EntryPoint v${entryPointVersion} paymaster deposit every ${intervalSeconds}s`
+      );
+      check().catch(error => logger.error('Deposit check failed:', error));
+      timer = setInterval(() => {
+        check().catch(error => logger.error('Deposit check failed:', error));
+      }, intervalSeconds * 1000);
+    },
+    stop() {
+      if (timer) clearInterval(timer);
+      timer = null;
+    },
+  };
+}
+
+export type DepositWatcher = ReturnType<typeof createDepositWatcher>;
+
+/**
+ * Read a MON amount from the environment
+ */
+function readMon(name: string, fallback: string): bigint {
+  try {
+    return parseEther(process.env[name] || fallback);
+  } catch {
+    logger.error(`Ignoring malformed ${name}:`, process.env[name]);
+    return parseEther(fallback);
+  }
+}
+
+/**
+ * Read DEPOSIT_WATCHER_INTERVAL_SECONDS. Unset, 0 or malformed leaves the background poll off.
+ */
+function readIntervalSeconds(): number {
+  const value = process.env.DEPOSIT_WATCHER_INTERVAL_SECONDS;
+  if (value === undefined || value === '') return 0;
+
+  const seconds = Number(value);
+  if (!Number.isInteger(seconds) || seconds < 0) {
+    logger.error('Ignoring malformed DEPOSIT_WATCHER_INTERVAL_SECONDS:', value);
+    return 0;
+  }
+  return seconds;
+}
+
+/**
+ * Deposit watchers configured from the environment, one per paymaster /api/paymaster signs with:
+ * the default EntryPoint's, and the v0.8 one when NEXT_PUBLIC_PAYMASTER_V08_ADDRESS is set.
+ * - PAYMASTER_LOW_DEPOSIT and PAYMASTER_CRITICAL_DEPOSIT, in MON
+ * - DEPOSIT_WATCHER_INTERVAL_SECONDS between polls once polling is started (0 or unset: no polling)
+ * - DEPOSIT_ALERT_WEBHOOK_URL to POST alerts to, besides the log and the in-memory list
+ * - DEPOSIT_REFILL_PRIVATE_KEY to enable refills from that treasury key, up to
+ *   DEPOSIT_REFILL_TARGET MON and at most DEPOSIT_REFILL_MAX_PER_DAY MON per 24 hours across all
+ *   paymasters, with the refill history in DEPOSIT_REFILL_STORE_PATH when it is set
+ */
+function createDepositWatchersFromEnv() {
+  const memoryNotifier = createMemoryNotifier();
+  const webhookUrl = process.env.DEPOSIT_ALERT_WEBHOOK_URL;
+  const notifier = combineNotifiers([
+    createLogNotifier(),
+    memoryNotifier,
+    ...(webhookUrl ? [createWebhookNotifier(webhookUrl)] : []),
+  ]);
+
+  const thresholds = {
+    low: readMon('PAYMASTER_LOW_DEPOSIT', '1'),
+    critical: readMon('PAYMASTER_CRITICAL_DEPOSIT', '0.1'),
+  };
+
+  let getRefill: ((entryPointVersion: EntryPointVersion) => DepositRefillConfig) | undefined;
+  const treasuryKey = process.env.DEPOSIT_REFILL_PRIVATE_KEY;
+  if (treasuryKey) {
+    const treasury = createWalletClient({
+      account: privateKeyToAccount(treasuryKey as Hex),
+      chain: monadTestnet,
+      transport: http(BACKEND_RPC_URL),
+    });
+    const target = readMon('DEPOSIT_REFILL_TARGET', '5');
+    const maxPerWindow = readMon('DEPOSIT_REFILL_MAX_PER_DAY', '10');
+    // One history for every paymaster, so the cap covers everything the treasury sends
+    const store = createDepositRefillStoreFromEnv();
+
+    getRefill = entryPointVersion => ({
+      target,
+      maxPerWindow,
+      windowSeconds: DAY_SECONDS,
+      store,
+      sendDeposit: (paymaster, amount) =>
+        treasury.writeContract({
+          address: paymaster,
+          abi: getPaymasterAbi(entryPointVersion),
+          functionName: 'deposit',
+          value: amount,
+        }),
+      async waitForDeposit(hash) {
+        const receipt = await backendPublicClient.waitForTransactionReceipt({ hash });
+        if (receipt.status !== 'success') {
+          throw new Error(`Deposit transaction ${hash} reverted`);
+        }
+      },
+    });
+    logger.info('Deposit refills enabled from treasury', treasury.account.address);
+  }
+
+  const intervalSeconds = readIntervalSeconds();
+  const entryPointVersions: EntryPointVersion[] = [
+    ENTRY_POINT.version,
+    ...(PAYMASTER_V08_ADDRESS ? (['0.8'] as const) : []),
+  ];
+  const watchers = entryPointVersions.map(entryPointVersion => ({
+    entryPointVersion,
+    ...createDepositWatcher({
+      client: backendPublicClient,
+      getPaymasterAddress: () => getPaymasterAddress(entryPointVersion),
+      entryPointVersion,
+      thresholds,
+      notifier,
+      refill: getRefill?.(entryPointVersion),
+      intervalSeconds: intervalSeconds || DEFAULT_INTERVAL_SECONDS,
+    }),
+  }));
+
+  return {
+    watchers,
+    thresholds,
+    alerts: memoryNotifier.alerts,
+    refillEnabled: !!getRefill,
+    intervalSeconds,
+    // Check every paymaster now. Concurrent callers share each watcher's check.
+    check: () => Promise.all(watchers.map(watcher => watcher.check())),
+  };
+}
+
+// API routes are bundled separately, so the one set of watchers per server process lives on
+// globalThis
+const globalForDepositWatcher = globalThis as typeof globalThis & {
+  depositWatchers?: ReturnType<typeof createDepositWatchersFromEnv>;
+};
+
+/**
+ * The server's deposit watchers, created from the environment on first use. Creating them does
+ * not start polling; see startDepositPolling.
+ */
+export function getDepositWatchers() {
+  globalForDepositWatcher.depositWatchers ??= createDepositWatchersFromEnv();
+  return globalForDepositWatcher.depositWatchers;
+}
+
+/**
+ * Start polling every paymaster deposit in the background, every
+ * DEPOSIT_WATCHER_INTERVAL_SECONDS. Does nothing when that is 0 or unset. Called once per server
+ * process from `src/instrumentation.ts`; calling it again is harmless.
+ */
+export function startDepositPolling() {
+  const depositWatchers = getDepositWatchers();
+  if (depositWatchers.intervalSeconds === 0) {
+    logger.info('Deposit polling is off - set DEPOSIT_WATCHER_INTERVAL_SECONDS to turn it on');
+    return;
+  }
+  for (const watcher of depositWatchers.watchers) {
+    watcher.start();
+  }
+}
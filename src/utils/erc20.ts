@@ -0,0 +1,100 @@
+import {
+  type Address,
+  type PublicClient,
+  encodeFunctionData,
+  erc20Abi,
+  getAddress,
+  isAddress,
+  parseUnits,
+} from 'viem';
+import { type TransactionCall } from './calls';
+
+export type TokenInfo = {
+  address: Address;
+  symbol: string;
+  decimals: number;
+};
+
+export type TokenBalance = TokenInfo & {
+  balance: bigint;
+};
+
+const tokenInfoCache = new Map<Address, TokenInfo>();
+
+/**
+ * Read the symbol and decimals of an ERC-20. Both are immutable, so they are cached per address.
+ */
+export async function getTokenInfo(client: PublicClient, token: Address): Promise<TokenInfo> {
+  const address = getAddress(token);
+  const cached = tokenInfoCache.get(address);
+  if (cached) return cached;
+
+  const [symbol, decimals] = await Promise.all([
+    client.readContract({ address, abi: erc20Abi, functionName: 'symbol' }),
+    client.readContract({ address, abi: erc20Abi, functionName: 'decimals' }),
+  ]);
+
+  const info = { address, symbol, decimals };
+  tokenInfoCache.set(address, info);
+  return info;
+}
+
+/**
+ * Read the token info and an owner's balance of several ERC-20s. Tokens that fail to load (e.g. an
+ * address that is not an ERC-20) are left out.
+ */
+export async function getTokenBalances(
+  client: PublicClient,
+  tokens: Address[],
+  owner: Address
+): Promise<TokenBalance[]> {
+  const results = await Promise.allSettled(
+    tokens.map(async token => {
+      const [info, balance] = await Promise.all([
+        getTokenInfo(client, token),
+        client.readContract({
+          address: token,
+          abi: erc20Abi,
+          functionName: 'balanceOf',
+          args: [owner],
+        }),
+      ]);
+      return { ...info, balance };
+    })
+  );
+
+  return results.flatMap(result => (result.status === 'fulfilled' ? [result.value] : []));
+}
+
+/**
+ * Build the call that transfers an amount of a token, given in whole units (e.g. "1.5")
+ */
+export function buildTokenTransferCall(
+  token: TokenInfo,
+  recipient: string,
+  amount: string
+): TransactionCall {
+  if (!isAddress(recipient)) {
+    throw new Error('Invalid recipient address');
+  }
+
+  let value: bigint;
+  try {
+    value = parseUnits(amount.trim(), token.decimals);
+  } catch {
+    throw new Error(`Invalid ${token.symbol} amount`);
+  }
+  if (value <= 0n) {
+    throw new Error('Amount must be greater than zero');
+  }
+
+  return {
+    to: token.address,
+    value: 0n,
+    data: encodeFunctionData({
+      abi: erc20Abi,
+      functionName: 'transfer',
+      args: [recipient, value],
+    }),
+  };
+}
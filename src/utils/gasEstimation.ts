@@ -0,0 +1,161 @@
+import {
+  type Address,
+  type Hex,
+  type PublicClient,
+  decodeFunctionResult,
+  encodeFunctionData,
+  hexToBytes,
+} from 'viem';
+import {
+  getUserOperationHash,
+  toPackedUserOperation,
+  type UserOperation,
+} from 'viem/account-abstraction';
+import paymasterAbi from '../abis/paymaster.json';
+import { getUserOperationMaxGasCost } from './sponsorPolicy';
+
+export type PaymasterGasLimits = {
+  paymasterVerificationGasLimit: bigint;
+  paymasterPostOpGasLimit: bigint;
+};
+
+// Used when simulation is not possible - tuned for a simple transfer through the Fastlane paymaster
+export const DEFAULT_PAYMASTER_GAS_LIMITS: PaymasterGasLimits = {
+  paymasterVerificationGasLimit: 75000n,
+  paymasterPostOpGasLimit: 120000n,
+};
+
+export const DEFAULT_GAS_MARGIN_PERCENT = 20;
+
+// Gas of a plain transaction that an EntryPoint-internal call does not pay
+const TRANSACTION_BASE_GAS = 21000n;
+
+/**
+ * Add a safety margin on top of a gas estimate
+ */
+export function applyGasMargin(gas: bigint, marginPercent: number): bigint {
+  return (gas * BigInt(100 + Math.round(marginPercent))) / 100n;
+}
+
+/**
+ * Intrinsic gas `eth_estimateGas` charges for a transaction, which a call made by the EntryPoint
+ * does not pay
+ */
+function getIntrinsicGas(data: Hex): bigint {
+  const calldataGas = hexToBytes(data).reduce((total, byte) => total + (byte === 0 ? 4n : 16n), 0n);
+  return TRANSACTION_BASE_GAS + calldataGas;
+}
+
+/**
+ * Estimate the gas of a call made by the EntryPoint, as it would be metered inside handleOps
+ */
+async function estimateEntryPointCall(
+  client: PublicClient,
+  entryPointAddress: Address,
+  to: Address,
+  data: Hex
+): Promise<bigint> {
+  const gas = await client.estimateGas({ account: entryPointAddress, to, data });
+  const intrinsicGas = getIntrinsicGas(data);
+  return gas > intrinsicGas ? gas - intrinsicGas : gas;
+}
+
+/**
+ * Measure the paymaster gas limits of an EntryPoint v0.7 or v0.8 UserOperation by simulating
+ * `validatePaymasterUserOp` and `postOp` as calls from the EntryPoint.
+ *
+ * `getPaymasterData` builds the paymasterData to validate. It should carry a well-formed signature
+ * so the signature check runs its full path. Throws when either simulation fails.
+ */
+export async function simulatePaymasterGasLimits({
+  client,
+  entryPointAddress,
+  entryPointVersion = '0.7',
+  paymasterAddress,
+  userOperation,
+  getPaymasterData,
+  marginPercent = DEFAULT_GAS_MARGIN_PERCENT,
+}: {
+  client: PublicClient;
+  entryPointAddress: Address;
+  entryPointVersion?: '0.7' | '0.8';
+  paymasterAddress: Address;
+  userOperation: UserOperation<'0.7'>;
+  getPaymasterData: (userOperation: UserOperation<'0.7'>) => Promise<Hex>;
+  marginPercent?: number;
+}): Promise<PaymasterGasLimits> {
+  const chainId = client.chain?.id;
+  if (!chainId) {
+    throw new Error('Gas simulation needs a client with a chain');
+  }
+
+  // The paymaster sees the operation as sent, where a 7702 initCode keeps its marker. Only the
+  // EntryPoint's hash resolves the delegate from the authorization.
+  const { authorization, ...sentOperation } = userOperation;
+
+  const stubbedOperation: UserOperation<'0.7'> = {
+    ...sentOperation,
+    ...DEFAULT_PAYMASTER_GAS_LIMITS,
+    paymaster: paymasterAddress,
+    paymasterData: '0x',
+  };
+  const operation = {
+    ...stubbedOperation,
+    paymasterData: await getPaymasterData(stubbedOperation),
+  };
+
+  const userOpHash = getUserOperationHash({
+    chainId,
+    entryPointAddress,
+    entryPointVersion,
+    userOperation: { ...operation, authorization },
+  });
+  const maxCost = getUserOperationMaxGasCost(operation);
+
+  // Validation: measure the gas and keep the context it hands to postOp
+  const validationData = encodeFunctionData({
+    abi: paymasterAbi,
+    functionName: 'validatePaymasterUserOp',
+    args: [toPackedUserOperation(operation), userOpHash, maxCost],
+  });
+  const { data: validationResult } = await client.call({
+    account: entryPointAddress,
+    to: paymasterAddress,
+    data: validationData,
+  });
+  if (!validationResult) {
+    throw new Error('validatePaymasterUserOp returned no data');
+  }
+  const [context] = decodeFunctionResult({
+    abi: paymasterAbi,
+    functionName: 'validatePaymasterUserOp',
+    data: validationResult,
+  }) as [Hex, bigint];
+  const verificationGas = await estimateEntryPointCall(
+    client,
+    entryPointAddress,
+    paymasterAddress,
+    validationData
+  );
+
+  // The EntryPoint skips postOp when validation returns an empty context
+  let postOpGas = 0n;
+  if (context !== '0x') {
+    const postOpData = encodeFunctionData({
+      abi: paymasterAbi,
+      functionName: 'postOp',
+      args: [0, context, maxCost, operation.maxFeePerGas],
+    });
+    postOpGas = await estimateEntryPointCall(
+      client,
+      entryPointAddress,
+      paymasterAddress,
+      postOpData
+    );
+  }
+
+  return {
+    paymasterVerificationGasLimit: applyGasMargin(verificationGas, marginPercent),
+    paymasterPostOpGasLimit: applyGasMargin(postOpGas, marginPercent),
+  };
+}
@@ -0,0 +1,131 @@
+import { type Address, type PublicClient, encodeFunctionData, formatEther, parseAbi } from 'viem';
+import { type TransactionCall } from './calls';
+import { type EntryPointVersion } from './config';
+import { getPaymasterAbi } from './contracts';
+
+// Same layout on every EntryPoint version; v0.6 stores the deposit as uint112
+const entryPointDepositInfoAbi = parseAbi([
+  'function getDepositInfo(address account) view returns ((uint256 deposit, bool staked, uint112 stake, uint32 unstakeDelaySec, uint48 withdrawTime) info)',
+]);
+
+/**
+ * Paymaster settings and its deposit and stake at the EntryPoint
+ */
+export type PaymasterAdminState = {
+  administrator: Address;
+  fee: bigint;
+  deposit: bigint;
+  staked: boolean;
+  stake: bigint;
+  unstakeDelaySec: number;
+  // Unix time the unlocked stake can be withdrawn, 0 while locked
+  withdrawTime: number;
+};
+
+/**
+ * An administrator action on the paymaster
+ */
+export type PaymasterAdminAction =
+  | { type: 'deposit'; amount: bigint }
+  | { type: 'withdrawTo'; to: Address; amount: bigint }
+  | { type: 'addStake'; amount: bigint; unstakeDelaySec: number }
+  | { type: 'unlockStake' }
+  | { type: 'withdrawStake'; to: Address }
+  | { type: 'unbondShMonad'; amount: bigint; newMinBalance: bigint }
+  | { type: 'redeemAndWithdrawShMonad'; amount: bigint }
+  | { type: 'setAdministrator'; administrator: Address };
+
+/**
+ * Read the paymaster's administrator and fee, and its deposit and stake from the EntryPoint
+ */
+export async function getPaymasterAdminState(
+  client: PublicClient,
+  paymaster: Address,
+  entryPoint: { address: Address; version: EntryPointVersion }
+): Promise<PaymasterAdminState> {
+  const abi = getPaymasterAbi(entryPoint.version);
+
+  const [administrator, fee, depositInfo] = await Promise.all([
+    client.readContract({
+      address: paymaster,
+      abi,
+      functionName: 'administrator',
+    }) as Promise<Address>,
+    client.readContract({ address: paymaster, abi, functionName: 'FEE' }) as Promise<bigint>,
+    client.readContract({
+      address: entryPoint.address,
+      abi: entryPointDepositInfoAbi,
+      functionName: 'getDepositInfo',
+      args: [paymaster],
+    }),
+  ]);
+
+  return {
+    administrator,
+    fee,
+    deposit: depositInfo.deposit,
+    staked: depositInfo.staked,
+    stake: depositInfo.stake,
+    unstakeDelaySec: depositInfo.unstakeDelaySec,
+    withdrawTime: depositInfo.withdrawTime,
+  };
+}
+
+/**
+ * The call that runs an administrator action. `deposit` and `addStake` send their amount as value.
+ */
+export function buildPaymasterAdminCall(
+  paymaster: Address,
+  entryPointVersion: EntryPointVersion,
+  action: PaymasterAdminAction
+): TransactionCall {
+  const abi = getPaymasterAbi(entryPointVersion);
+  const call = (functionName: string, args: unknown[], value = 0n): TransactionCall => ({
+    to: paymaster,
+    value,
+    data: encodeFunctionData({ abi, functionName, args }),
+  });
+
+  switch (action.type) {
+    case 'deposit':
+      return call('deposit', [], action.amount);
+    case 'withdrawTo':
+      return call('withdrawTo', [action.to, action.amount]);
+    case 'addStake':
+      return call('addStake', [action.unstakeDelaySec], action.amount);
+    case 'unlockStake':
+      return call('unlockStake', []);
+    case 'withdrawStake':
+      return call('withdrawStake', [action.to]);
+    case 'unbondShMonad':
+      return call('unbondShMonad', [action.amount, action.newMinBalance]);
+    case 'redeemAndWithdrawShMonad':
+      return call('redeemAndWithdrawShMonad', [action.amount]);
+    case 'setAdministrator':
+      return call('setAdministrator', [action.administrator]);
+  }
+}
+
+/**
+ * One-line description of an action, for confirmation dialogs and the action history
+ */
+export function describePaymasterAdminAction(action: PaymasterAdminAction): string {
+  switch (action.type) {
+    case 'deposit':
+      return `Deposit ${formatEther(action.amount)} MON to the EntryPoint`;
+    case 'withdrawTo':
+      return `Withdraw ${formatEther(action.amount)} MON of deposit to ${action.to}`;
+    case 'addStake':
+      return `Add ${formatEther(action.amount)} MON stake with a ${action.unstakeDelaySec}s unstake delay`;
+    case 'unlockStake':
+      return 'Unlock the stake';
+    case 'withdrawStake':
+      return `Withdraw the unlocked stake to ${action.to}`;
+    case 'unbondShMonad':
+      return `Unbond ${formatEther(action.amount)} shMON, keeping a minimum of ${formatEther(action.newMinBalance)}`;
+    case 'redeemAndWithdrawShMonad':
+      return `Redeem ${formatEther(action.amount)} shMON and withdraw the MON`;
+    case 'setAdministrator':
+      return `Transfer the administrator role to ${action.administrator}`;
+  }
+}
@@ -1,17 +1,43 @@
-import { createPaymasterClient, type PaymasterClient } from 'viem/account-abstraction';
-import { Hex, Address, http } from 'viem';
+import {
+  createPaymasterClient,
+  type PaymasterClient,
+  type UserOperation,
+} from 'viem/account-abstraction';
+import { Hex, Address, concat, http } from 'viem';
 import { paymasterMode } from './contracts';
+import { type ShBundler } from './bundler';
+import { applyGasMargin, DEFAULT_GAS_MARGIN_PERCENT } from './gasEstimation';
 
 /**
  * Creates a viem paymaster client that uses our custom paymaster RPC endpoint
+ *
+ * Every request carries the user's Privy access token as a bearer header, which the
+ * route verifies before sponsoring anything.
  */
-export function createApiPaymasterClient(): PaymasterClient {
+export function createApiPaymasterClient(
+  getAccessToken: () => Promise<string | null>
+): PaymasterClient {
   console.log('🔨 Creating local paymaster client using API endpoint');
 
   // Create the paymaster client using the factory function from viem
   // This will automatically handle the RPC calls to our backend API
   const paymasterClient = createPaymasterClient({
-    transport: http('/api/paymaster'),
+    transport: http('/api/paymaster', {
+      // Fetch the token per request so refreshed tokens are picked up
+      onFetchRequest: async (_request, init) => {
+        const accessToken = await getAccessToken();
+        if (!accessToken) {
+          throw new Error('Not authenticated with Privy - cannot request paymaster data');
+        }
+        return {
+          ...init,
+          headers: {
+            ...(init.headers as Record<string, string>),
+            Authorization: `Bearer ${accessToken}`,
+          },
+        };
+      },
+    }),
     name: 'Fastlane Paymaster RPC',
   });
 
@@ -59,3 +85,126 @@ export function generateSelfSponsoredPaymasterAndData(paymasterAddress: Address)
     verificationGasLimit,
   };
 }
+
+/**
+ * Estimates the gas limits of a self-sponsored operation through the bundler, with the paymaster
+ * fields in place so paymaster validation and postOp are simulated too. Used for EntryPoint v0.7
+ * and v0.8, which share the split paymaster fields.
+ *
+ * Falls back to the fixed limits of generateSelfSponsoredPaymasterAndData when the bundler
+ * cannot estimate the operation.
+ */
+export async function estimateSelfSponsoredPaymasterAndData(
+  bundler: ShBundler,
+  userOperation: UserOperation<'0.7' | '0.8'>,
+  paymasterAddress: Address
+): Promise<ReturnType<typeof generateSelfSponsoredPaymasterAndData>> {
+  const fallback = generateSelfSponsoredPaymasterAndData(paymasterAddress);
+
+  try {
+    const estimate = await bundler.estimateUserOperationGas({
+      ...userOperation,
+      ...fallback,
+    });
+
+    console.log('⛽ Estimated self-sponsored gas limits', estimate);
+
+    return {
+      ...fallback,
+      paymasterVerificationGasLimit: applyGasMargin(
+        estimate.paymasterVerificationGasLimit ?? fallback.paymasterVerificationGasLimit,
+        DEFAULT_GAS_MARGIN_PERCENT
+      ),
+      paymasterPostOpGasLimit: applyGasMargin(
+        estimate.paymasterPostOpGasLimit ?? fallback.paymasterPostOpGasLimit,
+        DEFAULT_GAS_MARGIN_PERCENT
+      ),
+      preVerificationGas: applyGasMargin(estimate.preVerificationGas, DEFAULT_GAS_MARGIN_PERCENT),
+      verificationGasLimit: applyGasMargin(
+        estimate.verificationGasLimit,
+        DEFAULT_GAS_MARGIN_PERCENT
+      ),
+    };
+  } catch (error) {
+    console.warn('⚠️ Self-sponsored gas estimation failed, using default limits', error);
+    return fallback;
+  }
+}
+
+/**
+ * EntryPoint v0.6 counterpart of estimateSelfSponsoredPaymasterAndData: the paymaster address and
+ * mode go into a single paymasterAndData field. Falls back to the limits the operation was
+ * prepared with when the bundler cannot estimate it.
+ */
+export async function estimateSelfSponsoredPaymasterAndDataV06(
+  bundler: ShBundler,
+  userOperation: UserOperation<'0.6'>,
+  paymasterAddress: Address
+): Promise<{
+  paymasterAndData: Hex;
+  preVerificationGas: bigint;
+  verificationGasLimit: bigint;
+  callGasLimit: bigint;
+}> {
+  const paymasterAndData = concat([paymasterAddress, paymasterMode('user') as Hex]);
+  const fallback = {
+    paymasterAndData,
+    preVerificationGas: userOperation.preVerificationGas,
+    verificationGasLimit: userOperation.verificationGasLimit,
+    callGasLimit: userOperation.callGasLimit,
+  };
+
+  try {
+    const estimate = await bundler.estimateUserOperationGas({
+      ...userOperation,
+      paymasterAndData,
+    });
+
+    console.log('⛽ Estimated self-sponsored gas limits (v0.6)', estimate);
+
+    return {
+      paymasterAndData,
+      preVerificationGas: applyGasMargin(estimate.preVerificationGas, DEFAULT_GAS_MARGIN_PERCENT),
+      verificationGasLimit: applyGasMargin(
+        estimate.verificationGasLimit,
+        DEFAULT_GAS_MARGIN_PERCENT
+      ),
+      callGasLimit: applyGasMargin(estimate.callGasLimit, DEFAULT_GAS_MARGIN_PERCENT),
+    };
+  } catch (error) {
+    console.warn('⚠️ Self-sponsored gas estimation failed, using prepared limits', error);
+    return fallback;
+  }
+}
+
+/**
+ * Fetches the tokens the token paymaster accepts for gas, with their exchange rates in token base
+ * units per MON. The route re-reads the rate when it signs, so this is only an estimate.
+ */
+export async function fetchTokenQuotes(entryPointAddress: Address): Promise<{
+  paymaster: Address;
+  quotes: { token: Address; exchangeRate: bigint }[];
+}> {
+  const response = await fetch('/api/paymaster', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'pm_getTokenQuotes',
+      params: [entryPointAddress],
+    }),
+  });
+  const { result, error } = await response.json();
+  if (error) {
+    throw new Error(`Token quotes unavailable: ${error.message}`);
+  }
+
+  return {
+    paymaster: result.paymaster,
+    quotes: result.quotes.map((quote: { token: Address; exchangeRate: Hex }) => ({
+      token: quote.token,
+      exchangeRate: BigInt(quote.exchangeRate),
+    })),
+  };
+}
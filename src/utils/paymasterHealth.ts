@@ -0,0 +1,212 @@
+import { type Address, type PublicClient, formatEther, isAddressEqual } from 'viem';
+import { readHubPaymaster } from './backendClient';
+import { type EntryPointVersion } from './config';
+import { getPaymasterAbi } from './contracts';
+import { type SponsorSignerRegistry } from './sponsorSigner';
+
+export type HealthStatus = 'pass' | 'warn' | 'fail';
+
+/**
+ * Result of one readiness check. `details` carries machine-readable values for dashboards.
+ */
+export type HealthCheck = {
+  name: string;
+  status: HealthStatus;
+  message: string;
+  details?: Record<string, unknown>;
+  durationMs: number;
+};
+
+export type HealthReport = {
+  status: HealthStatus;
+  checkedAt: string;
+  checks: HealthCheck[];
+};
+
+// Checks that take longer than this fail, so a probe never hangs on a dead dependency
+const CHECK_TIMEOUT_MS = 5000;
+
+type CheckResult = Omit<HealthCheck, 'name' | 'durationMs'>;
+
+/**
+ * Run one check with a timeout, turning thrown errors into a failed result
+ */
+async function runCheck(name: string, check: () => Promise<CheckResult>): Promise<HealthCheck> {
+  const startedAt = Date.now();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    const result = await Promise.race([
+      check(),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error(`Timed out after ${CHECK_TIMEOUT_MS}ms`)),
+          CHECK_TIMEOUT_MS
+        );
+      }),
+    ]);
+    return { name, ...result, durationMs: Date.now() - startedAt };
+  } catch (error) {
+    return {
+      name,
+      status: 'fail',
+      message: error instanceof Error ? error.message : String(error),
+      durationMs: Date.now() - startedAt,
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Check the paymaster's dependencies: the RPC and its chain id, the AddressHub paymaster, the
+ * paymaster's EntryPoint deposit, the sponsor keys and the bundler. The report fails when any
+ * check fails and warns when any check warns.
+ */
+export async function checkPaymasterHealth({
+  client,
+  chainId,
+  addressHub,
+  configuredPaymaster,
+  entryPointVersion,
+  lowDeposit,
+  signers,
+  bundlerUrl,
+}: {
+  client: PublicClient;
+  chainId: number;
+  addressHub?: Address;
+  // PAYMASTER_ADDRESS, which takes precedence over the AddressHub
+  configuredPaymaster?: Address;
+  entryPointVersion: EntryPointVersion;
+  // Deposit below which the deposit check warns, in wei
+  lowDeposit: bigint;
+  signers: SponsorSignerRegistry;
+  bundlerUrl: string;
+}): Promise<HealthReport> {
+  let hubPaymaster: Address | null = null;
+
+  const [rpc, hub] = await Promise.all([
+    runCheck('rpc', async () => {
+      const actualChainId = await client.getChainId();
+      return actualChainId === chainId
+        ? { status: 'pass', message: `Connected to chain ${actualChainId}`, details: { chainId } }
+        : {
+            status: 'fail',
+            message: `RPC is on chain ${actualChainId}, expected ${chainId}`,
+            details: { chainId: actualChainId, expectedChainId: chainId },
+          };
+    }),
+    runCheck('addressHub', async () => {
+      // The AddressHub lists the v0.7 paymaster, so on v0.6 only PAYMASTER_ADDRESS counts
+      if (entryPointVersion !== '0.7') {
+        return configuredPaymaster
+          ? {
+              status: 'pass',
+              message: `Using PAYMASTER_ADDRESS on EntryPoint v${entryPointVersion}`,
+              details: { configuredPaymaster },
+            }
+          : {
+              status: 'fail',
+              message: `PAYMASTER_ADDRESS must be set for EntryPoint v${entryPointVersion}`,
+            };
+      }
+
+      if (!addressHub) {
+        return configuredPaymaster
+          ? { status: 'warn', message: 'ADDRESS_HUB is not set, using PAYMASTER_ADDRESS' }
+          : { status: 'fail', message: 'Neither ADDRESS_HUB nor PAYMASTER_ADDRESS is set' };
+      }
+
+      const paymaster = await readHubPaymaster(client, addressHub);
+      if (!paymaster) {
+        return { status: 'fail', message: 'AddressHub returned no paymaster4337' };
+      }
+      hubPaymaster = paymaster;
+
+      if (configuredPaymaster && !isAddressEqual(configuredPaymaster, paymaster)) {
+        return {
+          status: 'warn',
+          message: 'PAYMASTER_ADDRESS overrides a different AddressHub paymaster',
+          details: { paymaster4337: paymaster, configuredPaymaster },
+        };
+      }
+      return {
+        status: 'pass',
+        message: `paymaster4337 is ${paymaster}`,
+        details: { paymaster4337: paymaster },
+      };
+    }),
+  ]);
+
+  const paymaster = configuredPaymaster ?? hubPaymaster;
+
+  const [deposit, sponsorSigner, bundler] = await Promise.all([
+    runCheck('entryPointDeposit', async () => {
+      if (!paymaster) {
+        return { status: 'fail', message: 'No paymaster address to check' };
+      }
+
+      const balance = (await client.readContract({
+        address: paymaster,
+        abi: getPaymasterAbi(entryPointVersion),
+        functionName: 'getDeposit',
+      })) as bigint;
+      const details = {
+        paymaster,
+        deposit: balance.toString(),
+        lowDeposit: lowDeposit.toString(),
+      };
+
+      if (balance === 0n) {
+        return { status: 'fail', message: 'The paymaster has no EntryPoint deposit', details };
+      }
+      return {
+        status: balance < lowDeposit ? 'warn' : 'pass',
+        message: `Deposit is ${formatEther(balance)} MON`,
+        details,
+      };
+    }),
+    runCheck('sponsorSigner', async () => {
+      const keys = signers.getSigners();
+      const active = keys.filter(key => key.active);
+      return active.length > 0
+        ? {
+            status: 'pass',
+            message: `${active.length} active sponsor key(s)`,
+            details: { keys },
+          }
+        : { status: 'fail', message: 'No active sponsor key is configured', details: { keys } };
+    }),
+    runCheck('bundler', async () => {
+      const response = await fetch(bundlerUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'gas_getUserOperationGasPrice',
+          params: [],
+        }),
+      });
+      const data = await response.json();
+      if (data.error) {
+        return { status: 'fail', message: `Bundler returned an error: ${data.error.message}` };
+      }
+      const gasPrice = data.result;
+      return {
+        status: 'pass',
+        message: 'Bundler answered gas_getUserOperationGasPrice',
+        details: { gasPrice },
+      };
+    }),
+  ]);
+
+  const checks = [rpc, hub, deposit, sponsorSigner, bundler];
+  const status: HealthStatus = checks.some(check => check.status === 'fail')
+    ? 'fail'
+    : checks.some(check => check.status === 'warn')
+      ? 'warn'
+      : 'pass';
+
+  return { status, checkedAt: new Date().toISOString(), checks };
+}
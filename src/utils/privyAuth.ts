@@ -0,0 +1,308 @@
+import crypto from 'crypto';
+import { type Address, type PublicClient, getAddress, isAddress } from 'viem';
+import { toAccount } from 'viem/accounts';
+import { type EntryPointVersion } from './config';
+import { createSmartAccount, SMART_ACCOUNT_TYPES } from './accounts';
+import { logger } from './logger';
+
+/**
+ * A verified Privy session: the user id from the access token and the accounts it may sponsor
+ */
+export type PrivySession = {
+  userId: string;
+  embeddedWallets: Address[];
+  smartAccounts: Address[];
+};
+
+type PrivyTokenClaims = {
+  sub: string;
+  iss: string;
+  aud: string | string[];
+  exp: number;
+  nbf?: number;
+  iat?: number;
+  // Only present in identity tokens - a JSON string of the user's linked accounts
+  linked_accounts?: string;
+};
+
+type PrivyLinkedAccount = {
+  type: string;
+  address?: string;
+  chain_type?: string;
+  wallet_client_type?: string;
+  walletClientType?: string;
+  chainType?: string;
+};
+
+/**
+ * Thrown when a request cannot be tied to a Privy user
+ */
+export class PrivyAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PrivyAuthError';
+  }
+}
+
+const PRIVY_ISSUER = 'privy.io';
+const PRIVY_API_URL = process.env.PRIVY_API_URL || 'https://auth.privy.io';
+const PRIVY_APP_ID = process.env.NEXT_PUBLIC_PRIVY_APP_ID || '';
+const PRIVY_APP_SECRET = process.env.PRIVY_APP_SECRET;
+
+// Allow a little clock drift between Privy and this server
+const CLOCK_TOLERANCE_SECONDS = 30;
+// How long a user's embedded wallets are cached after a Privy API lookup
+const WALLET_CACHE_SECONDS = 300;
+
+/**
+ * Parse the ES256 verification keys from PRIVY_VERIFICATION_KEY. Several PEM keys can be
+ * concatenated to accept tokens during a key rotation, and escaped newlines are allowed so the
+ * keys fit in a single-line env var.
+ */
+function loadVerificationKeys(): crypto.KeyObject[] {
+  const raw = (process.env.PRIVY_VERIFICATION_KEY || '').replace(/\\n/g, '\n');
+  const pems = raw.match(/-----BEGIN PUBLIC KEY-----[\s\S]+?-----END PUBLIC KEY-----/g) ?? [];
+
+  return pems.flatMap(pem => {
+    try {
+      return [crypto.createPublicKey(pem)];
+    } catch (error) {
+      logger.error('Invalid Privy verification key:', error);
+      return [];
+    }
+  });
+}
+
+const verificationKeys = loadVerificationKeys();
+if (verificationKeys.length === 0) {
+  logger.error('PRIVY_VERIFICATION_KEY is not set - all paymaster requests will be rejected');
+}
+
+/**
+ * Whether a parsed JSON value is an object, as a JWT header and payload must be
+ */
+function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Verify a Privy-issued ES256 JWT against the configured verification keys and return its claims
+ */
+export function verifyPrivyToken(token: string): PrivyTokenClaims {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new PrivyAuthError('Malformed token');
+  }
+  const [encodedHeader, encodedPayload, encodedSignature] = parts;
+
+  let header: unknown;
+  let payload: unknown;
+  try {
+    header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString('utf8'));
+    payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+  } catch {
+    throw new PrivyAuthError('Malformed token');
+  }
+  // Valid JSON can still be null, a number or an array, which have no claims to read
+  if (!isJsonObject(header) || !isJsonObject(payload)) {
+    throw new PrivyAuthError('Malformed token');
+  }
+  const claims = payload as PrivyTokenClaims;
+
+  if (header.alg !== 'ES256') {
+    throw new PrivyAuthError(`Unsupported token algorithm: ${header.alg}`);
+  }
+
+  const signedData = Buffer.from(`${encodedHeader}.${encodedPayload}`);
+  const signature = Buffer.from(encodedSignature, 'base64url');
+  const signatureValid = verificationKeys.some(key =>
+    crypto.verify('sha256', signedData, { key, dsaEncoding: 'ieee-p1363' }, signature)
+  );
+  if (!signatureValid) {
+    throw new PrivyAuthError('Invalid token signature');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (claims.iss !== PRIVY_ISSUER) {
+    throw new PrivyAuthError('Invalid token issuer');
+  }
+  if (!PRIVY_APP_ID || !audiences.includes(PRIVY_APP_ID)) {
+    throw new PrivyAuthError('Token was issued for a different app');
+  }
+  if (typeof claims.exp !== 'number' || claims.exp + CLOCK_TOLERANCE_SECONDS < now) {
+    throw new PrivyAuthError('Token expired');
+  }
+  if (claims.nbf !== undefined && claims.nbf - CLOCK_TOLERANCE_SECONDS > now) {
+    throw new PrivyAuthError('Token not yet valid');
+  }
+  if (typeof claims.sub !== 'string' || !claims.sub) {
+    throw new PrivyAuthError('Token has no subject');
+  }
+
+  return claims;
+}
+
+/**
+ * Pick the Ethereum embedded wallet addresses out of a Privy linked accounts list
+ */
+function getEmbeddedWalletAddresses(linkedAccounts: PrivyLinkedAccount[]): Address[] {
+  return linkedAccounts
+    .filter(
+      account =>
+        account?.type === 'wallet' &&
+        (account.wallet_client_type ?? account.walletClientType) === 'privy' &&
+        (account.chain_type ?? account.chainType ?? 'ethereum') === 'ethereum' &&
+        !!account.address &&
+        isAddress(account.address)
+    )
+    .map(account => getAddress(account.address as string));
+}
+
+const walletCache = new Map<string, { wallets: Address[]; expiresAt: number }>();
+
+/**
+ * Look up a user's embedded wallets through the Privy REST API (requires PRIVY_APP_SECRET)
+ */
+async function fetchEmbeddedWallets(userId: string): Promise<Address[]> {
+  const cached = walletCache.get(userId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.wallets;
+  }
+
+  if (!PRIVY_APP_SECRET) {
+    throw new PrivyAuthError(
+      'Cannot resolve the embedded wallet: send a Privy identity token or set PRIVY_APP_SECRET'
+    );
+  }
+
+  const response = await fetch(`${PRIVY_API_URL}/api/v1/users/${encodeURIComponent(userId)}`, {
+    headers: {
+      Authorization: `Basic ${Buffer.from(`${PRIVY_APP_ID}:${PRIVY_APP_SECRET}`).toString('base64')}`,
+      'privy-app-id': PRIVY_APP_ID,
+    },
+  });
+  if (!response.ok) {
+    throw new Error(`Privy user lookup failed with status ${response.status}`);
+  }
+
+  const user = (await response.json()) as { linked_accounts?: PrivyLinkedAccount[] };
+  const wallets = getEmbeddedWalletAddresses(user.linked_accounts ?? []);
+  walletCache.set(userId, { wallets, expiresAt: Date.now() + WALLET_CACHE_SECONDS * 1000 });
+
+  return wallets;
+}
+
+const smartAccountAddressCache = new Map<Address, Address[]>();
+
+/**
+ * Derive the counterfactual address of every smart account type the client can build for an
+ * embedded wallet owner. A type whose address cannot be derived (e.g. its factory is missing on
+ * this chain) is left out.
+ */
+export async function getSmartAccountAddressesForOwner(
+  client: PublicClient,
+  owner: Address
+): Promise<Address[]> {
+  const cached = smartAccountAddressCache.get(owner);
+  if (cached) return cached;
+
+  // Address derivation never signs, so a watch-only owner is enough
+  const watchOnlyOwner = toAccount({
+    address: owner,
+    async signMessage() {
+      throw new Error('Watch-only account');
+    },
+    async signTransaction() {
+      throw new Error('Watch-only account');
+    },
+    async signTypedData() {
+      throw new Error('Watch-only account');
+    },
+  });
+
+  const results = await Promise.allSettled(
+    SMART_ACCOUNT_TYPES.map(type => createSmartAccount(type, { client, owner: watchOnlyOwner }))
+  );
+  const addresses = results.flatMap((result, index) => {
+    if (result.status === 'fulfilled') return [result.value.address];
+
+    logger.warn(
+      `Could not derive the ${SMART_ACCOUNT_TYPES[index]} account address:`,
+      result.reason
+    );
+    return [];
+  });
+
+  // Only cache complete results, so a failed RPC call is retried on the next request
+  if (addresses.length === SMART_ACCOUNT_TYPES.length) {
+    smartAccountAddressCache.set(owner, addresses);
+  }
+  return addresses;
+}
+
+/**
+ * Authenticate a paymaster request from its `Authorization: Bearer <access token>` header.
+ *
+ * The embedded wallets come from a Privy identity token (the `privy-id-token` header or cookie)
+ * when one is sent, falling back to the Privy REST API.
+ */
+export async function authenticatePrivyRequest(
+  headers: Record<string, string | string[] | undefined>,
+  cookies: Partial<Record<string, string>>,
+  client: PublicClient
+): Promise<PrivySession> {
+  const authorization = headers.authorization;
+  const match = typeof authorization === 'string' && authorization.match(/^Bearer\s+(.+)$/i);
+  if (!match) {
+    throw new PrivyAuthError('Missing bearer access token');
+  }
+
+  const accessClaims = verifyPrivyToken(match[1]);
+  const userId = accessClaims.sub;
+
+  let embeddedWallets: Address[];
+  const identityToken =
+    (typeof headers['privy-id-token'] === 'string' ? headers['privy-id-token'] : undefined) ??
+    cookies['privy-id-token'];
+
+  if (identityToken) {
+    const identityClaims = verifyPrivyToken(identityToken);
+    if (identityClaims.sub !== userId) {
+      throw new PrivyAuthError('Identity token belongs to a different user');
+    }
+    let linkedAccounts: unknown;
+    try {
+      linkedAccounts = JSON.parse(identityClaims.linked_accounts ?? '[]');
+    } catch {
+      linkedAccounts = null;
+    }
+    if (!Array.isArray(linkedAccounts)) {
+      throw new PrivyAuthError('Malformed linked accounts in identity token');
+    }
+    embeddedWallets = getEmbeddedWalletAddresses(linkedAccounts);
+  } else {
+    embeddedWallets = await fetchEmbeddedWallets(userId);
+  }
+
+  const smartAccounts = (
+    await Promise.all(
+      embeddedWallets.map(wallet => getSmartAccountAddressesForOwner(client, wallet))
+    )
+  ).flat();
+
+  return { userId, embeddedWallets, smartAccounts };
+}
+
+/**
+ * Whether a UserOperation sender is one of the session's smart accounts. On EntryPoint v0.8 the
+ * sender is the embedded wallet itself, delegated to a smart account through EIP-7702.
+ */
+export function isSessionSender(
+  session: PrivySession,
+  sender: string,
+  entryPointVersion: EntryPointVersion
+): boolean {
+  const accounts = entryPointVersion === '0.8' ? session.embeddedWallets : session.smartAccounts;
+  return isAddress(sender) && accounts.some(account => account === getAddress(sender));
+}
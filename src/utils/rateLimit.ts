@@ -0,0 +1,125 @@
+/**
+ * Token bucket: holds up to `capacity` requests and regains `refillPerMinute` of them every minute
+ */
+export type TokenBucketLimit = {
+  capacity: number;
+  refillPerMinute: number;
+};
+
+export type RateLimitScope = 'ip' | 'user' | 'sender';
+
+// Stub data is cheap and requested during gas estimation; final data carries a sponsor signature
+export type RateLimitKind = 'stub' | 'final';
+
+export type RateLimitConfig = Record<
+  RateLimitKind,
+  Partial<Record<RateLimitScope, TokenBucketLimit>>
+>;
+
+export type RateLimitResult = { allowed: true } | { allowed: false; retryAfterSeconds: number };
+
+/**
+ * Storage for token buckets. An external store (e.g. Redis) must take the token atomically so
+ * several server instances can share the same limits.
+ */
+export interface RateLimitStore {
+  take(key: string, limit: TokenBucketLimit, now: number): Promise<RateLimitResult>;
+}
+
+export type RateLimitExceeded = {
+  scope: RateLimitScope;
+  retryAfterSeconds: number;
+};
+
+export const DEFAULT_RATE_LIMITS: RateLimitConfig = {
+  stub: {
+    ip: { capacity: 60, refillPerMinute: 60 },
+    user: { capacity: 60, refillPerMinute: 60 },
+    sender: { capacity: 60, refillPerMinute: 60 },
+  },
+  final: {
+    ip: { capacity: 20, refillPerMinute: 20 },
+    user: { capacity: 10, refillPerMinute: 10 },
+    sender: { capacity: 10, refillPerMinute: 10 },
+  },
+};
+
+// Buckets untouched for this long are full again and can be dropped
+const MEMORY_BUCKET_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * In-memory token buckets, local to one server instance
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+  let lastPrunedAt = 0;
+
+  function prune(now: number) {
+    if (now - lastPrunedAt < MEMORY_BUCKET_TTL_MS) return;
+    lastPrunedAt = now;
+    buckets.forEach((bucket, key) => {
+      if (now - bucket.updatedAt > MEMORY_BUCKET_TTL_MS) buckets.delete(key);
+    });
+  }
+
+  return {
+    async take(key, limit, now) {
+      prune(now);
+
+      const refillPerMs = limit.refillPerMinute / 60_000;
+      const bucket = buckets.get(key) ?? { tokens: limit.capacity, updatedAt: now };
+      bucket.tokens = Math.min(
+        limit.capacity,
+        bucket.tokens + (now - bucket.updatedAt) * refillPerMs
+      );
+      bucket.updatedAt = now;
+      buckets.set(key, bucket);
+
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        return { allowed: true };
+      }
+
+      const retryAfterSeconds =
+        refillPerMs > 0 ? Math.ceil((1 - bucket.tokens) / refillPerMs / 1000) : 60;
+      return { allowed: false, retryAfterSeconds };
+    },
+  };
+}
+
+/**
+ * Rate limiter for the paymaster route. Each check takes one token from the bucket of every
+ * identifier it is given.
+ */
+export function createRateLimiter({
+  config = DEFAULT_RATE_LIMITS,
+  store = createMemoryRateLimitStore(),
+}: {
+  config?: RateLimitConfig;
+  store?: RateLimitStore;
+} = {}) {
+  /**
+   * Returns the first exhausted scope, or null when the request may proceed
+   */
+  async function check(
+    kind: RateLimitKind,
+    identifiers: Partial<Record<RateLimitScope, string>>
+  ): Promise<RateLimitExceeded | null> {
+    const now = Date.now();
+
+    for (const scope of ['ip', 'user', 'sender'] as RateLimitScope[]) {
+      const identifier = identifiers[scope];
+      const limit = config[kind][scope];
+      if (!identifier || !limit) continue;
+
+      const result = await store.take(`${kind}:${scope}:${identifier.toLowerCase()}`, limit, now);
+      if (!result.allowed) {
+        return { scope, retryAfterSeconds: result.retryAfterSeconds };
+      }
+    }
+
+    return null;
+  }
+
+  return { check };
+}
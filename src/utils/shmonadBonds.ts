@@ -0,0 +1,244 @@
+import {
+  type Address,
+  type PublicClient,
+  encodeFunctionData,
+  maxUint256,
+  parseAbiItem,
+} from 'viem';
+import shmonadAbi from '../abis/shmonad.json';
+import { type TransactionCall } from './calls';
+
+/**
+ * shMON an account is unbonding from a policy, and the block at which it can be claimed
+ */
+export type UnbondingState = {
+  amount: bigint;
+  completeBlock: bigint;
+  blocksRemaining: bigint;
+  claimable: boolean;
+};
+
+/**
+ * The contract's automatic top-up of an account's bond: when the bonded balance drops below
+ * `minBonded`, up to `maxTopUpPerPeriod` of the account's unbonded shMON is bonded per
+ * `topUpPeriodDuration` blocks. `blockNumber` is where it was last set.
+ */
+export type TopUpConfig = {
+  minBonded: bigint;
+  maxTopUpPerPeriod: bigint;
+  topUpPeriodDuration: number;
+  blockNumber: bigint;
+};
+
+const setTopUpEvent = parseAbiItem(
+  'event SetTopUp(uint64 indexed policyID, address indexed account, uint128 minBonded, uint128 maxTopUpPerPeriod, uint32 topUpPeriodDuration)'
+);
+
+// Gas of a typical self-sponsored UserOperation, used to express a bond as a number of transactions
+export const SELF_SPONSORED_GAS_ESTIMATE = 400000n;
+
+// How far back to look for a top-up configuration whose block is not known
+export const TOP_UP_LOOKBACK_BLOCKS = 1000n;
+
+// Who pays the MON that is bonded: the embedded EOA or the smart account itself
+export type BondSource = 'eoa' | 'smart-account';
+
+// What to do with unbonded shMON once it is claimed
+export type ClaimAction = 'claim' | 'withdraw' | 'rebond';
+
+/**
+ * Read an account's bonded shMON under a policy. balanceOfBonded reverts for accounts that never
+ * bonded under the policy, which reads as zero.
+ */
+export async function getBondedBalance(
+  client: PublicClient,
+  shmonad: Address,
+  policyId: bigint,
+  account: Address
+): Promise<bigint> {
+  try {
+    return (await client.readContract({
+      address: shmonad,
+      abi: shmonadAbi,
+      functionName: 'balanceOfBonded',
+      args: [policyId, account],
+    })) as bigint;
+  } catch {
+    return 0n;
+  }
+}
+
+/**
+ * Read an account's pending unbond. Returns null when nothing is unbonding.
+ */
+export async function getUnbondingState(
+  client: PublicClient,
+  shmonad: Address,
+  policyId: bigint,
+  account: Address
+): Promise<UnbondingState | null> {
+  const [amount, completeBlock, currentBlock] = await Promise.all([
+    client.readContract({
+      address: shmonad,
+      abi: shmonadAbi,
+      functionName: 'balanceOfUnbonding',
+      args: [policyId, account],
+    }) as Promise<bigint>,
+    client.readContract({
+      address: shmonad,
+      abi: shmonadAbi,
+      functionName: 'unbondingCompleteBlock',
+      args: [policyId, account],
+    }) as Promise<bigint>,
+    client.getBlockNumber(),
+  ]);
+
+  if (amount === 0n) {
+    return null;
+  }
+
+  const blocksRemaining = completeBlock > currentBlock ? completeBlock - currentBlock : 0n;
+  return { amount, completeBlock, blocksRemaining, claimable: blocksRemaining === 0n };
+}
+
+/**
+ * The call that deposits MON and bonds the minted shMON for `recipient`. Bonding
+ * type(uint256).max tells the contract to bond exactly the shares just minted, which can be
+ * slightly fewer than the MON amount converts to off-chain.
+ */
+export function buildBondCall(
+  shmonad: Address,
+  policyId: bigint,
+  recipient: Address,
+  amount: bigint
+): TransactionCall {
+  return {
+    to: shmonad,
+    value: amount,
+    data: encodeFunctionData({
+      abi: shmonadAbi,
+      functionName: 'depositAndBond',
+      args: [policyId, recipient, maxUint256],
+    }),
+  };
+}
+
+/**
+ * The call that starts unbonding an amount of bonded shMON. Unbonded shMON stays locked until the
+ * policy's escrow period has passed.
+ */
+export function buildUnbondCall(
+  shmonad: Address,
+  policyId: bigint,
+  amount: bigint
+): TransactionCall {
+  return {
+    to: shmonad,
+    value: 0n,
+    data: encodeFunctionData({
+      abi: shmonadAbi,
+      functionName: 'unbond',
+      args: [policyId, amount, 0n],
+    }),
+  };
+}
+
+/**
+ * The call that claims unbonded shMON: as shMON, withdrawn to MON, or bonded again to the same
+ * policy for `account`
+ */
+export function buildClaimCall(
+  shmonad: Address,
+  policyId: bigint,
+  account: Address,
+  amount: bigint,
+  action: ClaimAction
+): TransactionCall {
+  const data =
+    action === 'rebond'
+      ? encodeFunctionData({
+          abi: shmonadAbi,
+          functionName: 'claimAndRebond',
+          args: [policyId, policyId, account, amount],
+        })
+      : encodeFunctionData({
+          abi: shmonadAbi,
+          functionName: action === 'withdraw' ? 'claimAndWithdraw' : 'claim',
+          args: [policyId, amount],
+        });
+
+  return { to: shmonad, value: 0n, data };
+}
+
+/**
+ * The call that sets the automatic top-up of the sender's bond
+ */
+export function buildSetTopUpCall(
+  shmonad: Address,
+  policyId: bigint,
+  config: Omit<TopUpConfig, 'blockNumber'>
+): TransactionCall {
+  return {
+    to: shmonad,
+    value: 0n,
+    data: encodeFunctionData({
+      abi: shmonadAbi,
+      functionName: 'setMinBondedBalance',
+      args: [policyId, config.minBonded, config.maxTopUpPerPeriod, config.topUpPeriodDuration],
+    }),
+  };
+}
+
+/**
+ * Read an account's top-up configuration from its latest SetTopUp event. The contract has no
+ * getter, so only events from `fromBlock` on are found; null when there are none.
+ */
+export async function getTopUpConfig(
+  client: PublicClient,
+  shmonad: Address,
+  policyId: bigint,
+  account: Address,
+  fromBlock: bigint
+): Promise<TopUpConfig | null> {
+  const events = await client.getContractEvents({
+    address: shmonad,
+    abi: [setTopUpEvent],
+    eventName: 'SetTopUp',
+    args: { policyID: policyId, account },
+    fromBlock,
+  });
+
+  const latest = events[events.length - 1];
+  if (!latest) {
+    return null;
+  }
+
+  return {
+    minBonded: latest.args.minBonded ?? 0n,
+    maxTopUpPerPeriod: latest.args.maxTopUpPerPeriod ?? 0n,
+    topUpPeriodDuration: latest.args.topUpPeriodDuration ?? 0,
+    blockNumber: latest.blockNumber,
+  };
+}
+
+/**
+ * How many self-sponsored transactions a bonded shMON balance pays for at the current gas price
+ */
+export async function estimateBondedTransactions(
+  client: PublicClient,
+  shmonad: Address,
+  bondedShares: bigint
+): Promise<bigint> {
+  const [bondedAssets, gasPrice] = await Promise.all([
+    client.readContract({
+      address: shmonad,
+      abi: shmonadAbi,
+      functionName: 'convertToAssets',
+      args: [bondedShares],
+    }) as Promise<bigint>,
+    client.getGasPrice(),
+  ]);
+
+  const costPerTransaction = gasPrice * SELF_SPONSORED_GAS_ESTIMATE;
+  return costPerTransaction > 0n ? bondedAssets / costPerTransaction : 0n;
+}
@@ -0,0 +1,88 @@
+import { type Address, type PublicClient } from 'viem';
+import shmonadAbi from '../abis/shmonad.json';
+
+/**
+ * A shMONAD policy: bonds under it unbond after `escrowDuration` blocks, and its agents may move
+ * bonded shMON (the Fastlane paymaster is an agent of the policy it sponsors from)
+ */
+export type ShmonadPolicy = {
+  id: bigint;
+  escrowDuration: number;
+  active: boolean;
+  agents: Address[];
+  // Whether the given paymaster is one of the agents
+  isPaymasterAgent: boolean;
+  // The account's bonded shMON under this policy
+  bonded: bigint;
+};
+
+/**
+ * Read one policy with its agents, the account's bond and whether the paymaster is an agent
+ */
+export async function getShmonadPolicy(
+  client: PublicClient,
+  shmonad: Address,
+  id: bigint,
+  { paymaster, account }: { paymaster?: Address; account?: Address } = {}
+): Promise<ShmonadPolicy> {
+  const [policy, agents, isPaymasterAgent, bonded] = await Promise.all([
+    client.readContract({
+      address: shmonad,
+      abi: shmonadAbi,
+      functionName: 'getPolicy',
+      args: [id],
+    }) as Promise<{ escrowDuration: number; active: boolean }>,
+    client.readContract({
+      address: shmonad,
+      abi: shmonadAbi,
+      functionName: 'getPolicyAgents',
+      args: [id],
+    }) as Promise<Address[]>,
+    paymaster
+      ? (client.readContract({
+          address: shmonad,
+          abi: shmonadAbi,
+          functionName: 'isPolicyAgent',
+          args: [id, paymaster],
+        }) as Promise<boolean>)
+      : false,
+    // balanceOfBonded reverts for accounts that never bonded under the policy
+    account
+      ? (
+          client.readContract({
+            address: shmonad,
+            abi: shmonadAbi,
+            functionName: 'balanceOfBonded',
+            args: [id, account],
+          }) as Promise<bigint>
+        ).catch(() => 0n)
+      : 0n,
+  ]);
+
+  return {
+    id,
+    escrowDuration: Number(policy.escrowDuration),
+    active: policy.active,
+    agents,
+    isPaymasterAgent,
+    bonded,
+  };
+}
+
+/**
+ * Read every shMONAD policy. Policy IDs run from 1 to `policyCount`.
+ */
+export async function getShmonadPolicies(
+  client: PublicClient,
+  shmonad: Address,
+  options: { paymaster?: Address; account?: Address } = {}
+): Promise<ShmonadPolicy[]> {
+  const count = (await client.readContract({
+    address: shmonad,
+    abi: shmonadAbi,
+    functionName: 'policyCount',
+  })) as bigint;
+
+  const ids = Array.from({ length: Number(count) }, (_, index) => BigInt(index + 1));
+  return Promise.all(ids.map(id => getShmonadPolicy(client, shmonad, id, options)));
+}
@@ -0,0 +1,458 @@
+import type BetterSqlite3 from 'better-sqlite3';
+import fs from 'fs';
+import { type Address, type Hex, isAddressEqual } from 'viem';
+import { logger } from './logger';
+
+/**
+ * A spend cap over a rolling window. Limits are decimal wei strings so they can live in JSON.
+ */
+export type BudgetCap = {
+  limit: string;
+  windowSeconds: number;
+};
+
+/**
+ * Spend budgets for sponsored UserOperations. Every cap is optional.
+ */
+export type SponsorBudgetConfig = {
+  // Cap for each individual sender
+  perSender?: BudgetCap;
+  // Cap across all senders over the last 24 hours
+  daily?: { limit: string };
+  // Cap across all senders over a custom window (e.g. 30 days)
+  global?: BudgetCap;
+};
+
+export type BudgetScope = 'perSender' | 'daily' | 'global';
+
+/**
+ * One sponsored UserOperation. `amount` starts as the worst-case gas cost and is replaced by the
+ * actual gas cost once a receipt is found. Operations signed again for the same sender and nonce
+ * are each kept, since any one of them may be the one that lands.
+ */
+export type SponsorCharge = {
+  userOpHash: Hex;
+  sender: Address;
+  nonce: bigint;
+  amount: bigint;
+  timestamp: number; // unix seconds
+  validUntil: number; // unix seconds, after which the op can no longer land
+  settled: boolean;
+};
+
+/**
+ * Storage for sponsorship charges. Implement this to keep budgets in a database shared between
+ * server instances.
+ */
+export interface SponsorBudgetStore {
+  listCharges(since: number): Promise<SponsorCharge[]>;
+  addCharge(charge: SponsorCharge): Promise<void>;
+  settleCharge(userOpHash: Hex, amount: bigint): Promise<void>;
+  pruneCharges(before: number): Promise<void>;
+}
+
+/**
+ * Thrown when charging an operation would exceed one of the budget caps
+ */
+export class SponsorBudgetExceededError extends Error {
+  constructor(
+    public readonly scope: BudgetScope,
+    public readonly limit: bigint,
+    public readonly remaining: bigint,
+    public readonly resetAt: number
+  ) {
+    super(`Sponsorship budget exceeded (${scope}): ${remaining} of ${limit} wei remaining`);
+    this.name = 'SponsorBudgetExceededError';
+  }
+}
+
+const DAY_SECONDS = 86400;
+
+// How often unsettled charges are checked against UserOperation receipts
+const RECONCILE_INTERVAL_SECONDS = 30;
+const RECONCILE_BATCH_SIZE = 20;
+
+/**
+ * Whether two charges are for the same sender and nonce, so at most one of them can land
+ */
+function isSameNonce(a: SponsorCharge, b: SponsorCharge) {
+  return a.nonce === b.nonce && isAddressEqual(a.sender, b.sender);
+}
+
+/**
+ * The charges that count against a cap: for each sender and nonce only the largest, since only one
+ * of the operations signed for it can land
+ */
+function countedCharges(charges: SponsorCharge[]): SponsorCharge[] {
+  const counted: SponsorCharge[] = [];
+  for (const charge of charges) {
+    const index = counted.findIndex(entry => isSameNonce(entry, charge));
+    if (index === -1) {
+      counted.push(charge);
+    } else if (charge.amount > counted[index].amount) {
+      counted[index] = charge;
+    }
+  }
+  return counted;
+}
+
+/**
+ * In-memory store - budgets reset whenever the server restarts
+ */
+export function createMemoryBudgetStore(): SponsorBudgetStore {
+  let charges: SponsorCharge[] = [];
+
+  return {
+    async listCharges(since) {
+      return charges.filter(charge => charge.timestamp > since);
+    },
+    async addCharge(charge) {
+      charges.push(charge);
+    },
+    async settleCharge(userOpHash, amount) {
+      const charge = charges.find(entry => entry.userOpHash === userOpHash);
+      if (charge) {
+        charge.amount = amount;
+        charge.settled = true;
+      }
+    },
+    async pruneCharges(before) {
+      charges = charges.filter(charge => charge.timestamp > before);
+    },
+  };
+}
+
+/**
+ * JSON file store - survives restarts of a single server instance
+ */
+export function createFileBudgetStore(filePath: string): SponsorBudgetStore {
+  const memory = createMemoryBudgetStore();
+  let loaded = false;
+
+  async function load() {
+    if (loaded) return;
+    loaded = true;
+
+    if (!fs.existsSync(filePath)) return;
+
+    const stored = JSON.parse(await fs.promises.readFile(filePath, 'utf8')) as Array<
+      Omit<SponsorCharge, 'nonce' | 'amount'> & { nonce: string; amount: string }
+    >;
+    for (const charge of stored) {
+      await memory.addCharge({
+        ...charge,
+        nonce: BigInt(charge.nonce),
+        amount: BigInt(charge.amount),
+      });
+    }
+  }
+
+  async function save() {
+    const charges = await memory.listCharges(0);
+    await fs.promises.writeFile(
+      filePath,
+      JSON.stringify(
+        charges.map(charge => ({
+          ...charge,
+          nonce: charge.nonce.toString(),
+          amount: charge.amount.toString(),
+        })),
+        null,
+        2
+      )
+    );
+  }
+
+  return {
+    async listCharges(since) {
+      await load();
+      return memory.listCharges(since);
+    },
+    async addCharge(charge) {
+      await load();
+      await memory.addCharge(charge);
+      await save();
+    },
+    async settleCharge(userOpHash, amount) {
+      await load();
+      await memory.settleCharge(userOpHash, amount);
+      await save();
+    },
+    async pruneCharges(before) {
+      await load();
+      await memory.pruneCharges(before);
+      await save();
+    },
+  };
+}
+
+type SqliteChargeRow = {
+  user_op_hash: Hex;
+  sender: Address;
+  nonce: string;
+  amount: string;
+  timestamp: number;
+  valid_until: number;
+  settled: number;
+};
+
+/**
+ * SQLite store - survives restarts and can be shared by the server processes on one host. Amounts
+ * and nonces are kept as decimal strings, since they do not fit SQLite's 64-bit integers.
+ */
+export function createSqliteBudgetStore(filePath: string): SponsorBudgetStore {
+  let statements: Promise<ReturnType<typeof prepareSqliteStatements>> | undefined;
+
+  // The driver is a native module, so it is only loaded once the store is first used
+  function getStatements() {
+    statements ??= import('better-sqlite3').then(({ default: Database }) =>
+      prepareSqliteStatements(new Database(filePath))
+    );
+    return statements;
+  }
+
+  return {
+    async listCharges(since) {
+      const { selectSince } = await getStatements();
+      return selectSince.all(since).map(row => ({
+        userOpHash: row.user_op_hash,
+        sender: row.sender,
+        nonce: BigInt(row.nonce),
+        amount: BigInt(row.amount),
+        timestamp: row.timestamp,
+        validUntil: row.valid_until,
+        settled: row.settled === 1,
+      }));
+    },
+    async addCharge(charge) {
+      const { insert } = await getStatements();
+      insert.run({
+        user_op_hash: charge.userOpHash,
+        sender: charge.sender,
+        nonce: charge.nonce.toString(),
+        amount: charge.amount.toString(),
+        timestamp: charge.timestamp,
+        valid_until: charge.validUntil,
+        settled: charge.settled ? 1 : 0,
+      });
+    },
+    async settleCharge(userOpHash, amount) {
+      const { settle } = await getStatements();
+      settle.run(amount.toString(), userOpHash);
+    },
+    async pruneCharges(before) {
+      const { prune } = await getStatements();
+      prune.run(before);
+    },
+  };
+}
+
+/**
+ * Create the charges table if needed and prepare the statements the SQLite store runs
+ */
+function prepareSqliteStatements(db: BetterSqlite3.Database) {
+  db.pragma('journal_mode = WAL');
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS sponsor_charges (
+      user_op_hash TEXT PRIMARY KEY,
+      sender TEXT NOT NULL,
+      nonce TEXT NOT NULL,
+      amount TEXT NOT NULL,
+      timestamp INTEGER NOT NULL,
+      valid_until INTEGER NOT NULL,
+      settled INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS sponsor_charges_timestamp ON sponsor_charges (timestamp);
+  `);
+
+  return {
+    selectSince: db.prepare<[number], SqliteChargeRow>(
+      'SELECT * FROM sponsor_charges WHERE timestamp > ? ORDER BY timestamp'
+    ),
+    insert: db.prepare<[SqliteChargeRow]>(
+      `INSERT OR REPLACE INTO sponsor_charges
+         (user_op_hash, sender, nonce, amount, timestamp, valid_until, settled)
+       VALUES (@user_op_hash, @sender, @nonce, @amount, @timestamp, @valid_until, @settled)`
+    ),
+    settle: db.prepare<[string, string]>(
+      'UPDATE sponsor_charges SET amount = ?, settled = 1 WHERE user_op_hash = ?'
+    ),
+    prune: db.prepare<[number]>('DELETE FROM sponsor_charges WHERE timestamp <= ?'),
+  };
+}
+
+/**
+ * Pick the budget store from the environment: SQLite when SPONSOR_BUDGET_SQLITE_PATH is set, a
+ * JSON file when SPONSOR_BUDGET_STORE_PATH is set, otherwise memory.
+ */
+export function createBudgetStoreFromEnv(): SponsorBudgetStore {
+  const sqlitePath = process.env.SPONSOR_BUDGET_SQLITE_PATH;
+  if (sqlitePath) {
+    logger.info('Using SQLite sponsorship budget store', sqlitePath);
+    return createSqliteBudgetStore(sqlitePath);
+  }
+
+  const filePath = process.env.SPONSOR_BUDGET_STORE_PATH;
+  if (filePath) {
+    logger.info('Using file sponsorship budget store', filePath);
+    return createFileBudgetStore(filePath);
+  }
+  return createMemoryBudgetStore();
+}
+
+/**
+ * Tracks how much gas the sponsor has committed to and enforces the configured caps.
+ *
+ * `getActualGasCost` looks up the receipt of a sponsored operation and returns its actual gas cost,
+ * or null when no receipt exists yet.
+ */
+export function createSponsorBudgetTracker({
+  config,
+  store,
+  getActualGasCost,
+}: {
+  config: SponsorBudgetConfig;
+  store: SponsorBudgetStore;
+  getActualGasCost: (userOpHash: Hex) => Promise<bigint | null>;
+}) {
+  const caps: { scope: BudgetScope; cap: BudgetCap }[] = [];
+  if (config.perSender) caps.push({ scope: 'perSender', cap: config.perSender });
+  if (config.daily) {
+    caps.push({ scope: 'daily', cap: { limit: config.daily.limit, windowSeconds: DAY_SECONDS } });
+  }
+  if (config.global) caps.push({ scope: 'global', cap: config.global });
+
+  const longestWindow = Math.max(0, ...caps.map(({ cap }) => cap.windowSeconds));
+
+  let lastReconciledAt = 0;
+
+  // Serialize check-and-charge so concurrent requests cannot overspend the same allowance
+  let queue: Promise<unknown> = Promise.resolve();
+  function withLock<T>(fn: () => Promise<T>): Promise<T> {
+    const run = queue.then(fn, fn);
+    queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Replace worst-case charges with the actual gas cost from their receipts. Once one operation for
+   * a sender and nonce lands, the others signed for it are released, since they can no longer land.
+   * Charges that expired without ever landing are released too.
+   */
+  async function reconcile(now: number) {
+    if (now - lastReconciledAt < RECONCILE_INTERVAL_SECONDS) return;
+    lastReconciledAt = now;
+
+    const charges = await store.listCharges(now - longestWindow);
+    const pending = charges.filter(charge => !charge.settled).slice(0, RECONCILE_BATCH_SIZE);
+    const released = new Set<Hex>();
+
+    for (const charge of pending) {
+      if (released.has(charge.userOpHash)) continue;
+      try {
+        const actualGasCost = await getActualGasCost(charge.userOpHash);
+        if (actualGasCost !== null) {
+          await store.settleCharge(charge.userOpHash, actualGasCost);
+          for (const other of charges) {
+            if (other.settled || other.userOpHash === charge.userOpHash) continue;
+            if (!isSameNonce(other, charge)) continue;
+            await store.settleCharge(other.userOpHash, 0n);
+            released.add(other.userOpHash);
+          }
+        } else if (now > charge.validUntil) {
+          await store.settleCharge(charge.userOpHash, 0n);
+        }
+      } catch (error) {
+        logger.warn('Failed to reconcile sponsorship charge', {
+          userOpHash: charge.userOpHash,
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    await store.pruneCharges(now - longestWindow);
+  }
+
+  /**
+   * Throw SponsorBudgetExceededError if `next` does not fit in a cap. Only what `next` adds over
+   * the largest charge already signed for its sender and nonce is checked.
+   */
+  function checkCap(
+    scope: BudgetScope,
+    cap: BudgetCap,
+    charges: SponsorCharge[],
+    next: SponsorCharge,
+    now: number
+  ) {
+    const limit = BigInt(cap.limit);
+    const window = charges.filter(charge => charge.timestamp > now - cap.windowSeconds);
+    const inWindow = countedCharges(window).sort((a, b) => a.timestamp - b.timestamp);
+    const used = inWindow.reduce((total, charge) => total + charge.amount, 0n);
+    const remaining = limit > used ? limit - used : 0n;
+    const amount =
+      countedCharges([...window, next]).reduce((total, charge) => total + charge.amount, 0n) - used;
+
+    if (amount <= remaining) return;
+
+    // The allowance recovers as the oldest charges roll out of the window
+    let resetAt = now + cap.windowSeconds;
+    let freed = 0n;
+    for (const charge of inWindow) {
+      freed += charge.amount;
+      if (remaining + freed >= amount) {
+        resetAt = charge.timestamp + cap.windowSeconds;
+        break;
+      }
+    }
+
+    throw new SponsorBudgetExceededError(scope, limit, remaining, resetAt);
+  }
+
+  /**
+   * Charge a signed operation's worst-case gas cost, or throw if a cap would be exceeded. Operations
+   * signed again for the same sender and nonce only count once, at the largest charge.
+   */
+  async function charge({
+    userOpHash,
+    sender,
+    nonce,
+    amount,
+    validUntil,
+  }: {
+    userOpHash: Hex;
+    sender: Address;
+    nonce: bigint;
+    amount: bigint;
+    validUntil: number;
+  }) {
+    if (caps.length === 0) return;
+
+    return withLock(async () => {
+      const now = Math.floor(Date.now() / 1000);
+      await reconcile(now);
+
+      const next: SponsorCharge = {
+        userOpHash,
+        sender,
+        nonce,
+        amount,
+        timestamp: now,
+        validUntil,
+        settled: false,
+      };
+
+      const charges = await store.listCharges(now - longestWindow);
+      for (const { scope, cap } of caps) {
+        const scoped =
+          scope === 'perSender'
+            ? charges.filter(entry => isAddressEqual(entry.sender, sender))
+            : charges;
+        checkCap(scope, cap, scoped, next, now);
+      }
+
+      await store.addCharge(next);
+    });
+  }
+
+  return { charge };
+}
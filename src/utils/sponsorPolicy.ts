@@ -0,0 +1,385 @@
+import fs from 'fs';
+import {
+  decodeFunctionData,
+  hexToBigInt,
+  hexToNumber,
+  isAddress,
+  isAddressEqual,
+  isHex,
+  parseAbi,
+  size,
+  slice,
+  toFunctionSelector,
+  type AbiFunction,
+  type Address,
+  type Hex,
+} from 'viem';
+import {
+  formatUserOperation,
+  type RpcUserOperation,
+  type UserOperation,
+} from 'viem/account-abstraction';
+import { decode7579Calls } from 'permissionless/utils';
+import { logger } from './logger';
+import { type SponsorBudgetConfig } from './sponsorBudget';
+import { type RateLimitConfig } from './rateLimit';
+
+/**
+ * Sponsorship policy configuration
+ *
+ * Amounts are decimal wei strings so the same shape can be loaded from a JSON file.
+ * Every rule is optional - an empty policy sponsors everything.
+ */
+export type SponsorPolicyConfig = {
+  // Either only sponsor the listed senders ('allow') or sponsor everyone except them ('deny')
+  senders?: {
+    mode: 'allow' | 'deny';
+    addresses: Address[];
+  };
+  // Contracts the account may call. When `selectors` is omitted any function on the target is allowed
+  targets?: {
+    address: Address;
+    selectors?: Hex[];
+  }[];
+  // When true, calls without calldata (native transfers) may go to any address
+  allowNativeTransfers?: boolean;
+  // Maximum native value of a single call, in wei
+  maxValuePerCall?: string;
+  // Maximum of maxFeePerGas × total gas limits for a single UserOperation, in wei
+  maxGasCostPerOp?: string;
+  // Rolling spend caps enforced by the budget tracker
+  budgets?: SponsorBudgetConfig;
+  // Overrides for the paymaster route's request rate limits
+  rateLimits?: Partial<RateLimitConfig>;
+};
+
+export type SponsorPolicyRule =
+  'config' | 'sender' | 'callData' | 'target' | 'selector' | 'value' | 'gasCost';
+
+export type SponsorPolicyResult =
+  { allowed: true } | { allowed: false; rule: SponsorPolicyRule; reason: string };
+
+export type DecodedCall = {
+  to: Address;
+  value: bigint;
+  data: Hex;
+};
+
+// Default policy used when SPONSOR_POLICY_PATH is not set
+export const DEFAULT_SPONSOR_POLICY: SponsorPolicyConfig = {};
+
+// Safe 4337 module entry points used by permissionless.js
+const safeExecuteAbi = parseAbi([
+  'function executeUserOp(address to, uint256 value, bytes data, uint8 operation)',
+  'function executeUserOpWithErrorString(address to, uint256 value, bytes data, uint8 operation)',
+]);
+
+const multiSendAbi = parseAbi(['function multiSend(bytes transactions)']);
+
+// Execute functions of Simple Account, Light Account and Simple7702Account. Kernel v2 batches
+// share the tuple executeBatch.
+const executeAbi = parseAbi([
+  'function execute(address target, uint256 value, bytes data)',
+  'function executeBatch(address[] dest, bytes[] func)',
+  'function executeBatch(address[] dest, uint256[] value, bytes[] func)',
+  'function executeBatch((address target, uint256 value, bytes data)[] calls)',
+]);
+
+// Kernel v2 (EntryPoint v0.6) single calls and Kernel v3 ERC-7579 executions
+const kernelExecuteAbi = parseAbi([
+  'function execute(address to, uint256 value, bytes data, uint8 operation)',
+  'function execute(bytes32 execMode, bytes executionCalldata)',
+]);
+
+// Canonical Safe 1.4.1 MultiSend deployments - the only delegatecall targets we accept
+const SAFE_MULTI_SEND_ADDRESSES: Address[] = [
+  '0x38869bf66a61cF6bDB996A6aE40D5853Fd43B526', // MultiSend
+  '0x9641d764fc13c8B624c04430C7356C1C7C8102e2', // MultiSendCallOnly
+];
+
+/**
+ * Load the sponsorship policy from the JSON file at SPONSOR_POLICY_PATH, or the default policy.
+ * Returns null when the file exists but cannot be parsed, so callers can fail closed.
+ */
+export function loadSponsorPolicy(): SponsorPolicyConfig | null {
+  const policyPath = process.env.SPONSOR_POLICY_PATH;
+  if (!policyPath) {
+    return DEFAULT_SPONSOR_POLICY;
+  }
+
+  try {
+    const policy = JSON.parse(fs.readFileSync(policyPath, 'utf8')) as SponsorPolicyConfig;
+    validateSponsorPolicy(policy);
+    logger.info('Loaded sponsorship policy', policyPath);
+    return policy;
+  } catch (error) {
+    logger.error('Failed to load sponsorship policy, all sponsorships will be rejected:', error);
+    return null;
+  }
+}
+
+/**
+ * Throw if the policy contains malformed addresses, selectors or amounts
+ */
+function validateSponsorPolicy(policy: SponsorPolicyConfig) {
+  if (policy.senders) {
+    if (policy.senders.mode !== 'allow' && policy.senders.mode !== 'deny') {
+      throw new Error(`Invalid senders.mode: ${policy.senders.mode}`);
+    }
+    for (const address of policy.senders.addresses) {
+      if (!isAddress(address)) throw new Error(`Invalid sender address: ${address}`);
+    }
+  }
+
+  for (const target of policy.targets ?? []) {
+    if (!isAddress(target.address)) throw new Error(`Invalid target address: ${target.address}`);
+    for (const selector of target.selectors ?? []) {
+      if (!isHex(selector) || size(selector) !== 4) {
+        throw new Error(`Invalid function selector: ${selector}`);
+      }
+    }
+  }
+
+  // BigInt throws on anything that is not an integer string
+  if (policy.maxValuePerCall !== undefined) BigInt(policy.maxValuePerCall);
+  if (policy.maxGasCostPerOp !== undefined) BigInt(policy.maxGasCostPerOp);
+
+  for (const cap of [policy.budgets?.perSender, policy.budgets?.daily, policy.budgets?.global]) {
+    if (cap) BigInt(cap.limit);
+  }
+  for (const cap of [policy.budgets?.perSender, policy.budgets?.global]) {
+    if (cap && !(cap.windowSeconds > 0)) {
+      throw new Error(`Invalid budget windowSeconds: ${cap.windowSeconds}`);
+    }
+  }
+}
+
+/**
+ * Decode the calls a Safe UserOperation will execute.
+ *
+ * Handles single calls through the Safe 4337 module and batches that delegatecall into MultiSend.
+ * Throws if the callData is not something we know how to inspect.
+ */
+export function decodeSafeCalls(callData: Hex): DecodedCall[] {
+  const { args } = decodeFunctionData({ abi: safeExecuteAbi, data: callData });
+  const [to, value, data, operation] = args;
+
+  if (operation === 0) {
+    return [{ to, value, data }];
+  }
+
+  if (!SAFE_MULTI_SEND_ADDRESSES.some(address => isAddressEqual(address, to))) {
+    throw new Error(`Delegatecall to unknown contract ${to}`);
+  }
+
+  const { args: multiSendArgs } = decodeFunctionData({ abi: multiSendAbi, data });
+  const transactions = multiSendArgs[0];
+  const calls: DecodedCall[] = [];
+
+  // Each packed transaction is operation (1) | to (20) | value (32) | dataLength (32) | data
+  let position = 0;
+  const length = size(transactions);
+  while (position < length) {
+    const innerOperation = hexToNumber(slice(transactions, position, position + 1));
+    const innerTo = slice(transactions, position + 1, position + 21) as Address;
+    const innerValue = hexToBigInt(slice(transactions, position + 21, position + 53));
+    const dataLength = hexToNumber(slice(transactions, position + 53, position + 85));
+    const innerData = dataLength
+      ? slice(transactions, position + 85, position + 85 + dataLength)
+      : ('0x' as Hex);
+
+    if (innerOperation !== 0) {
+      throw new Error(`Nested delegatecall to ${innerTo} inside MultiSend`);
+    }
+
+    calls.push({ to: innerTo, value: innerValue, data: innerData });
+    position += 85 + dataLength;
+  }
+
+  return calls;
+}
+
+/**
+ * Decode the calls of a Simple Account, Light Account or Simple7702Account.
+ * Throws if the callData is not one of their `execute` or `executeBatch` functions.
+ */
+export function decodeExecuteCalls(callData: Hex): DecodedCall[] {
+  const { functionName, args } = decodeFunctionData({ abi: executeAbi, data: callData });
+
+  if (functionName === 'execute') {
+    const [to, value, data] = args;
+    return [{ to, value, data }];
+  }
+
+  // executeBatch comes as call tuples, as parallel arrays, or as arrays without values
+  if (args.length === 1) {
+    return args[0].map(call => ({ to: call.target, value: call.value, data: call.data }));
+  }
+  if (args.length === 3) {
+    const [targets, values, datas] = args;
+    return targets.map((to, index) => ({ to, value: values[index], data: datas[index] }));
+  }
+  const [targets, datas] = args;
+  return targets.map((to, index) => ({ to, value: 0n, data: datas[index] }));
+}
+
+/**
+ * Decode the calls of a Kernel account. Throws on delegatecalls, which could run anything.
+ */
+export function decodeKernelCalls(callData: Hex): DecodedCall[] {
+  const { args } = decodeFunctionData({ abi: kernelExecuteAbi, data: callData });
+
+  // Kernel v2
+  if (args.length === 4) {
+    const [to, value, data, operation] = args;
+    if (operation !== 0) {
+      throw new Error(`Delegatecall to ${to} from Kernel`);
+    }
+    return [{ to, value, data }];
+  }
+
+  // Kernel v3 encodes its executions per ERC-7579
+  const { mode, callData: calls } = decode7579Calls(callData);
+  if (mode.type === 'delegatecall') {
+    throw new Error('Kernel delegatecall executions are not allowed');
+  }
+  return calls.map(call => ({ to: call.to, value: call.value ?? 0n, data: call.data ?? '0x' }));
+}
+
+/**
+ * Whether calldata calls one of the functions in an ABI
+ */
+function matchesSelector(abi: readonly AbiFunction[], callData: Hex): boolean {
+  const selector = (size(callData) >= 4 ? slice(callData, 0, 4) : callData).toLowerCase();
+  return abi.some(item => toFunctionSelector(item) === selector);
+}
+
+/**
+ * Decode the calls of any account this demo builds: Safe, Kernel, Simple Account, Light Account
+ * or Simple7702Account
+ */
+export function decodeAccountCalls(callData: Hex): DecodedCall[] {
+  if (matchesSelector(executeAbi, callData)) return decodeExecuteCalls(callData);
+  if (matchesSelector(kernelExecuteAbi, callData)) return decodeKernelCalls(callData);
+  return decodeSafeCalls(callData);
+}
+
+/**
+ * Worst-case gas cost of a UserOperation: maxFeePerGas × the sum of all gas limits.
+ * EntryPoint v0.6 reserves the verification gas three times when a paymaster is used.
+ */
+export function getUserOperationMaxGasCost(userOperation: UserOperation): bigint {
+  const verificationMultiplier =
+    userOperation.paymasterAndData && userOperation.paymasterAndData !== '0x' ? 3n : 1n;
+  const totalGas =
+    (userOperation.callGasLimit ?? 0n) +
+    (userOperation.verificationGasLimit ?? 0n) * verificationMultiplier +
+    (userOperation.preVerificationGas ?? 0n) +
+    (userOperation.paymasterVerificationGasLimit ?? 0n) +
+    (userOperation.paymasterPostOpGasLimit ?? 0n);
+
+  return (userOperation.maxFeePerGas ?? 0n) * totalGas;
+}
+
+/**
+ * Check a UserOperation from a JSON-RPC request against the sponsorship policy
+ */
+export function evaluateSponsorPolicy(
+  rpcUserOperation: RpcUserOperation,
+  policy: SponsorPolicyConfig | null
+): SponsorPolicyResult {
+  if (!policy) {
+    return { allowed: false, rule: 'config', reason: 'Sponsorship policy failed to load' };
+  }
+
+  const userOperation = formatUserOperation(rpcUserOperation);
+  const sender = userOperation.sender;
+
+  // Sender allowlist / denylist
+  if (policy.senders) {
+    const listed = policy.senders.addresses.some(address => isAddressEqual(address, sender));
+    if (policy.senders.mode === 'allow' && !listed) {
+      return { allowed: false, rule: 'sender', reason: `Sender ${sender} is not on the allowlist` };
+    }
+    if (policy.senders.mode === 'deny' && listed) {
+      return { allowed: false, rule: 'sender', reason: `Sender ${sender} is on the denylist` };
+    }
+  }
+
+  // Only decode callData when a rule actually needs it
+  if (policy.targets || policy.maxValuePerCall !== undefined) {
+    let calls: DecodedCall[];
+    try {
+      calls = decodeAccountCalls(userOperation.callData);
+    } catch (error) {
+      return {
+        allowed: false,
+        rule: 'callData',
+        reason: `Could not decode account callData: ${(error as Error).message}`,
+      };
+    }
+
+    for (const call of calls) {
+      const result = checkCall(call, policy);
+      if (!result.allowed) return result;
+    }
+  }
+
+  // Worst-case gas cost
+  if (policy.maxGasCostPerOp !== undefined) {
+    const maxGasCost = getUserOperationMaxGasCost(userOperation);
+    const limit = BigInt(policy.maxGasCostPerOp);
+    if (maxGasCost > limit) {
+      return {
+        allowed: false,
+        rule: 'gasCost',
+        reason: `Max gas cost ${maxGasCost} wei exceeds the limit of ${limit} wei`,
+      };
+    }
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Check a single decoded call against the target, selector and value rules
+ */
+function checkCall(call: DecodedCall, policy: SponsorPolicyConfig): SponsorPolicyResult {
+  if (policy.maxValuePerCall !== undefined && call.value > BigInt(policy.maxValuePerCall)) {
+    return {
+      allowed: false,
+      rule: 'value',
+      reason: `Call to ${call.to} sends ${call.value} wei, above the limit of ${policy.maxValuePerCall} wei`,
+    };
+  }
+
+  if (!policy.targets) {
+    return { allowed: true };
+  }
+
+  const isNativeTransfer = call.data === '0x';
+  if (isNativeTransfer && policy.allowNativeTransfers) {
+    return { allowed: true };
+  }
+
+  const target = policy.targets.find(entry => isAddressEqual(entry.address, call.to));
+  if (!target) {
+    return { allowed: false, rule: 'target', reason: `Target ${call.to} is not allowed` };
+  }
+
+  if (target.selectors) {
+    const selector = size(call.data) >= 4 ? slice(call.data, 0, 4) : call.data;
+    const selectorAllowed = target.selectors.some(
+      allowed => allowed.toLowerCase() === selector.toLowerCase()
+    );
+    if (!selectorAllowed) {
+      return {
+        allowed: false,
+        rule: 'selector',
+        reason: `Function selector ${selector} is not allowed on ${call.to}`,
+      };
+    }
+  }
+
+  return { allowed: true };
+}
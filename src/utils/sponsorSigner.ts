@@ -0,0 +1,289 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import {
+  type Address,
+  type Hex,
+  bytesToHex,
+  concat,
+  getAddress,
+  hexToBigInt,
+  isAddress,
+  isAddressEqual,
+  keccak256,
+  recoverMessageAddress,
+} from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { logger } from './logger';
+
+/**
+ * A key that signs sponsorships. Its address is the payor written into sponsor mode paymasterData,
+ * so every key needs its own bonded shMON under the paymaster's policy.
+ */
+export interface SponsorSigner {
+  id: string;
+  address: Address;
+  // Sign a 32-byte hash as an EIP-191 personal message, like signMessage({ message: { raw } })
+  signHash(hash: Hex): Promise<Hex>;
+}
+
+/**
+ * One key in the SPONSOR_SIGNERS_PATH file. Secrets are read from the environment variables the
+ * entry names, never from the file itself. Inactive keys stay listed but sign nothing new.
+ */
+export type SponsorKeyConfig = { id: string; active?: boolean } & (
+  | { type: 'local'; privateKeyEnv: string }
+  | { type: 'keystore'; path: string; passwordEnv: string }
+  | { type: 'remote'; url: string; address: Address; tokenEnv?: string; timeoutMs?: number }
+);
+
+export type SponsorSignersConfig = {
+  keys: SponsorKeyConfig[];
+};
+
+/**
+ * The sponsor keys in use, reloaded when their config file changes
+ */
+export interface SponsorSignerRegistry {
+  // The active signer for a sender, or null when no key is active
+  getSigner(sender: Address): SponsorSigner | null;
+  getSigners(): { id: string; address: Address; active: boolean }[];
+}
+
+/**
+ * Signer backed by a private key held in memory
+ */
+export function createLocalSponsorSigner(id: string, privateKey: Hex): SponsorSigner {
+  const account = privateKeyToAccount(privateKey);
+  return {
+    id,
+    address: account.address,
+    signHash: hash => account.signMessage({ message: { raw: hash } }),
+  };
+}
+
+/**
+ * Decrypt a Web3 Secret Storage (v3) keystore, as written by geth, Foundry's `cast wallet` and
+ * most wallets
+ */
+function decryptKeystore(keystore: string, password: string): Hex {
+  const parsed = JSON.parse(keystore);
+  const { cipher, cipherparams, ciphertext, kdf, kdfparams, mac } = parsed.crypto ?? parsed.Crypto;
+  if (cipher !== 'aes-128-ctr') throw new Error(`Unsupported keystore cipher: ${cipher}`);
+
+  const salt = Buffer.from(kdfparams.salt, 'hex');
+  let derivedKey: Buffer;
+  if (kdf === 'scrypt') {
+    const { n: N, r, p, dklen } = kdfparams;
+    derivedKey = crypto.scryptSync(password, salt, dklen, { N, r, p, maxmem: 256 * N * r });
+  } else if (kdf === 'pbkdf2') {
+    if (kdfparams.prf !== 'hmac-sha256') {
+      throw new Error(`Unsupported keystore prf: ${kdfparams.prf}`);
+    }
+    derivedKey = crypto.pbkdf2Sync(password, salt, kdfparams.c, kdfparams.dklen, 'sha256');
+  } else {
+    throw new Error(`Unsupported keystore kdf: ${kdf}`);
+  }
+
+  const ciphertextBytes = Buffer.from(ciphertext, 'hex');
+  const expectedMac = keccak256(concat([derivedKey.subarray(16, 32), ciphertextBytes]));
+  if (expectedMac.slice(2) !== mac.toLowerCase()) {
+    throw new Error('Wrong keystore password');
+  }
+
+  const decipher = crypto.createDecipheriv(
+    'aes-128-ctr',
+    derivedKey.subarray(0, 16),
+    Buffer.from(cipherparams.iv, 'hex')
+  );
+  return bytesToHex(Buffer.concat([decipher.update(ciphertextBytes), decipher.final()]));
+}
+
+/**
+ * Signer backed by an encrypted keystore file, decrypted once when it is loaded
+ */
+export function createKeystoreSponsorSigner(
+  id: string,
+  keystore: string,
+  password: string
+): SponsorSigner {
+  return createLocalSponsorSigner(id, decryptKeystore(keystore, password));
+}
+
+// How long a remote signer may take to answer before the request fails
+const DEFAULT_REMOTE_SIGNER_TIMEOUT_MS = 5000;
+
+/**
+ * Signer that asks a remote service to sign. It POSTs `{ keyId, hash }` to the URL and expects
+ * `{ signature }` back within `timeoutMs`. The signature must recover to the configured address,
+ * so a misbehaving service can never make the paymaster charge another payor.
+ */
+export function createRemoteSponsorSigner(
+  id: string,
+  {
+    url,
+    address,
+    token,
+    timeoutMs = DEFAULT_REMOTE_SIGNER_TIMEOUT_MS,
+  }: { url: string; address: Address; token?: string; timeoutMs?: number }
+): SponsorSigner {
+  return {
+    id,
+    address,
+    async signHash(hash) {
+      let signature: Hex;
+      try {
+        const response = await fetch(url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(token ? { Authorization: `Bearer ${token}` } : {}),
+          },
+          body: JSON.stringify({ keyId: id, hash }),
+          signal: AbortSignal.timeout(timeoutMs),
+        });
+        if (!response.ok) {
+          throw new Error(`Remote signer ${id} answered ${response.status}`);
+        }
+
+        ({ signature } = (await response.json()) as { signature: Hex });
+      } catch (error) {
+        if ((error as Error).name === 'TimeoutError') {
+          throw new Error(`Remote signer ${id} did not answer within ${timeoutMs}ms`);
+        }
+        throw error;
+      }
+      const signer = await recoverMessageAddress({ message: { raw: hash }, signature });
+      if (!isAddressEqual(signer, address)) {
+        throw new Error(`Remote signer ${id} signed with ${signer} instead of ${address}`);
+      }
+      return signature;
+    },
+  };
+}
+
+/**
+ * Build the signer a config entry describes, reading its secrets from the environment
+ */
+export function createSponsorSignerFromConfig(key: SponsorKeyConfig): SponsorSigner {
+  const secret = (name: string) => {
+    const value = process.env[name];
+    if (!value) throw new Error(`${name} is not set for sponsor key ${key.id}`);
+    return value;
+  };
+
+  switch (key.type) {
+    case 'local':
+      return createLocalSponsorSigner(key.id, secret(key.privateKeyEnv) as Hex);
+    case 'keystore':
+      return createKeystoreSponsorSigner(
+        key.id,
+        fs.readFileSync(key.path, 'utf8'),
+        secret(key.passwordEnv)
+      );
+    case 'remote':
+      if (!isAddress(key.address)) throw new Error(`Invalid address for sponsor key ${key.id}`);
+      if (key.timeoutMs !== undefined && !(Number.isInteger(key.timeoutMs) && key.timeoutMs > 0)) {
+        throw new Error(`Invalid timeoutMs for sponsor key ${key.id}`);
+      }
+      return createRemoteSponsorSigner(key.id, {
+        url: key.url,
+        address: getAddress(key.address),
+        token: key.tokenEnv ? secret(key.tokenEnv) : undefined,
+        timeoutMs: key.timeoutMs,
+      });
+    default:
+      throw new Error(`Unknown sponsor key type: ${(key as { type: string }).type}`);
+  }
+}
+
+/**
+ * Registry over a fixed list of signers and whether each is active. Senders are spread over the
+ * active keys by address, so a sender keeps its payor for as long as the key set stays the same.
+ */
+export function createStaticSponsorSignerRegistry(
+  entries: { signer: SponsorSigner; active: boolean }[]
+): SponsorSignerRegistry {
+  const active = entries.filter(entry => entry.active).map(entry => entry.signer);
+
+  return {
+    getSigner(sender) {
+      if (active.length === 0) return null;
+      return active[Number(hexToBigInt(sender) % BigInt(active.length))];
+    },
+    getSigners() {
+      return entries.map(({ signer, active }) => ({
+        id: signer.id,
+        address: signer.address,
+        active,
+      }));
+    },
+  };
+}
+
+/**
+ * Load the signers of a SPONSOR_SIGNERS_PATH file. Throws on duplicate ids or unusable keys, so a
+ * broken file never half-replaces the keys in use.
+ */
+function loadSponsorSignersFile(filePath: string): SponsorSignerRegistry {
+  const config = JSON.parse(fs.readFileSync(filePath, 'utf8')) as SponsorSignersConfig;
+  const ids = new Set<string>();
+
+  const entries = config.keys.map(key => {
+    if (ids.has(key.id)) throw new Error(`Duplicate sponsor key id: ${key.id}`);
+    ids.add(key.id);
+    return { signer: createSponsorSignerFromConfig(key), active: key.active !== false };
+  });
+
+  logger.info(
+    'Loaded sponsor keys',
+    entries.map(entry => `${entry.signer.id}${entry.active ? '' : ' (inactive)'}`)
+  );
+  return createStaticSponsorSignerRegistry(entries);
+}
+
+/**
+ * Sponsor keys from the environment. With SPONSOR_SIGNERS_PATH the keys come from that JSON file
+ * (see `sponsor-signers.example.json`), which is reloaded whenever it changes, so keys can be
+ * rotated without a restart. If a reload fails the previous keys stay in use. Without it the
+ * single SPONSOR_WALLET_PRIVATE_KEY is used, under the id `default`.
+ */
+export function createSponsorSignersFromEnv(): SponsorSignerRegistry {
+  const filePath = process.env.SPONSOR_SIGNERS_PATH;
+  if (!filePath) {
+    const privateKey = process.env.SPONSOR_WALLET_PRIVATE_KEY;
+    if (!privateKey) {
+      logger.error('SPONSOR_WALLET_PRIVATE_KEY environment variable is not set');
+      logger.error('This is required for the paymaster to work properly');
+      return createStaticSponsorSignerRegistry([]);
+    }
+    return createStaticSponsorSignerRegistry([
+      { signer: createLocalSponsorSigner('default', privateKey as Hex), active: true },
+    ]);
+  }
+
+  let registry = createStaticSponsorSignerRegistry([]);
+  let loadedMtime = 0;
+
+  const refresh = () => {
+    try {
+      const mtime = fs.statSync(filePath).mtimeMs;
+      if (mtime === loadedMtime) return;
+      loadedMtime = mtime;
+      registry = loadSponsorSignersFile(filePath);
+    } catch (error) {
+      logger.error('Failed to load sponsor keys, keeping the previous keys:', error);
+    }
+  };
+  refresh();
+
+  return {
+    getSigner(sender) {
+      refresh();
+      return registry.getSigner(sender);
+    },
+    getSigners() {
+      refresh();
+      return registry.getSigners();
+    },
+  };
+}
@@ -0,0 +1,345 @@
+import fs from 'fs';
+import { type Address, type Hex, type PublicClient, isAddressEqual, parseAbi } from 'viem';
+import { entryPoint07Abi } from 'viem/account-abstraction';
+import { logger } from './logger';
+
+// Who paid for the gas: the sponsor (mode 0x01) or the sender's own bond (mode 0x00)
+export type SponsorshipMode = 'sponsor' | 'user';
+
+/**
+ * One UserOperation the paymaster paid for, from its UserOperationSponsored event joined with
+ * the EntryPoint's UserOperationEvent
+ */
+export type SponsorshipRecord = {
+  userOpHash: Hex;
+  sender: Address;
+  payor: Address;
+  mode: SponsorshipMode;
+  actualGasCost: bigint;
+  policyId: bigint;
+  success: boolean;
+  blockNumber: bigint;
+  transactionHash: Hex;
+  timestamp: number; // unix seconds
+};
+
+export type SponsorshipFilter = {
+  sender?: Address;
+  mode?: SponsorshipMode;
+  from?: number; // unix seconds, inclusive
+  to?: number; // unix seconds, inclusive
+};
+
+export type SponsorshipTotal = {
+  count: number;
+  actualGasCost: bigint;
+};
+
+/**
+ * Storage for indexed sponsorships and the last block indexed. Implement this to keep the
+ * activity feed in a database shared between server instances.
+ */
+export interface SponsorshipStore {
+  getCursor(): Promise<bigint | null>;
+  // Add records and move the cursor in one step, so a crash never skips or repeats a page
+  addRecords(records: SponsorshipRecord[], cursor: bigint): Promise<void>;
+  listRecords(filter: SponsorshipFilter): Promise<SponsorshipRecord[]>;
+}
+
+// The paymaster event indexed, typed so its decoded logs are too
+const sponsoredEventAbi = parseAbi([
+  'event UserOperationSponsored(bytes32 indexed userOpHash, address indexed payor, uint256 actualGasCost, uint64 policyID)',
+]);
+
+// Blocks per eth_getLogs request - public Monad RPCs reject wide ranges
+const DEFAULT_PAGE_SIZE = 100n;
+// How long a query waits on the sync before serving what is indexed, so one request never waits
+// on a long backfill. The sync carries on in the background.
+const QUERY_SYNC_BUDGET_MS = 10_000;
+// Where indexing starts when no start block is configured
+const DEFAULT_LOOKBACK_BLOCKS = 10000n;
+
+/**
+ * Whether a record passes a filter
+ */
+function matchesFilter(record: SponsorshipRecord, filter: SponsorshipFilter): boolean {
+  return (
+    (!filter.sender || isAddressEqual(record.sender, filter.sender)) &&
+    (!filter.mode || record.mode === filter.mode) &&
+    (filter.from === undefined || record.timestamp >= filter.from) &&
+    (filter.to === undefined || record.timestamp <= filter.to)
+  );
+}
+
+/**
+ * In-memory store - the feed is rebuilt from the start block whenever the server restarts
+ */
+export function createMemorySponsorshipStore(): SponsorshipStore {
+  let cursor: bigint | null = null;
+  const records: SponsorshipRecord[] = [];
+
+  return {
+    async getCursor() {
+      return cursor;
+    },
+    async addRecords(newRecords, newCursor) {
+      records.push(...newRecords);
+      cursor = newCursor;
+    },
+    async listRecords(filter) {
+      return records.filter(record => matchesFilter(record, filter));
+    },
+  };
+}
+
+type StoredRecord = Omit<SponsorshipRecord, 'actualGasCost' | 'policyId' | 'blockNumber'> & {
+  actualGasCost: string;
+  policyId: string;
+  blockNumber: string;
+};
+
+/**
+ * JSON file store - survives restarts of a single server instance
+ */
+export function createFileSponsorshipStore(filePath: string): SponsorshipStore {
+  const memory = createMemorySponsorshipStore();
+  let loaded = false;
+
+  async function load() {
+    if (loaded) return;
+    loaded = true;
+
+    if (!fs.existsSync(filePath)) return;
+
+    const stored = JSON.parse(await fs.promises.readFile(filePath, 'utf8')) as {
+      cursor: string;
+      records: StoredRecord[];
+    };
+    await memory.addRecords(
+      stored.records.map(record => ({
+        ...record,
+        actualGasCost: BigInt(record.actualGasCost),
+        policyId: BigInt(record.policyId),
+        blockNumber: BigInt(record.blockNumber),
+      })),
+      BigInt(stored.cursor)
+    );
+  }
+
+  async function save() {
+    const [cursor, records] = await Promise.all([memory.getCursor(), memory.listRecords({})]);
+    await fs.promises.writeFile(
+      filePath,
+      JSON.stringify({
+        cursor: (cursor ?? 0n).toString(),
+        records: records.map(record => ({
+          ...record,
+          actualGasCost: record.actualGasCost.toString(),
+          policyId: record.policyId.toString(),
+          blockNumber: record.blockNumber.toString(),
+        })),
+      })
+    );
+  }
+
+  return {
+    async getCursor() {
+      await load();
+      return memory.getCursor();
+    },
+    async addRecords(records, cursor) {
+      await load();
+      await memory.addRecords(records, cursor);
+      await save();
+    },
+    async listRecords(filter) {
+      await load();
+      return memory.listRecords(filter);
+    },
+  };
+}
+
+/**
+ * Pick the sponsorship store from the environment: a JSON file when SPONSORSHIP_STORE_PATH is
+ * set, otherwise memory.
+ */
+export function createSponsorshipStoreFromEnv(): SponsorshipStore {
+  const filePath = process.env.SPONSORSHIP_STORE_PATH;
+  if (filePath) {
+    logger.info('Using file sponsorship store', filePath);
+    return createFileSponsorshipStore(filePath);
+  }
+  return createMemorySponsorshipStore();
+}
+
+/**
+ * Indexes the paymaster's UserOperationSponsored events into a store.
+ *
+ * `getPaymasterAddress` resolves the paymaster to index, or null while it is unknown. Indexing
+ * starts at `startBlock`, or a fixed lookback from the chain head when it is not set.
+ */
+export function createSponsorshipIndexer({
+  client,
+  entryPointAddress,
+  getPaymasterAddress,
+  store,
+  startBlock,
+  pageSize = DEFAULT_PAGE_SIZE,
+}: {
+  client: PublicClient;
+  entryPointAddress: Address;
+  getPaymasterAddress: () => Promise<Address | null>;
+  store: SponsorshipStore;
+  startBlock?: bigint;
+  pageSize?: bigint;
+}) {
+  let syncing: Promise<void> | null = null;
+
+  /**
+   * Index one block range, joining each sponsorship with its EntryPoint event for the sender
+   */
+  async function indexPage(paymaster: Address, fromBlock: bigint, toBlock: bigint) {
+    const [sponsoredEvents, userOperationEvents] = await Promise.all([
+      client.getContractEvents({
+        address: paymaster,
+        abi: sponsoredEventAbi,
+        eventName: 'UserOperationSponsored',
+        fromBlock,
+        toBlock,
+        strict: true,
+      }),
+      client.getContractEvents({
+        address: entryPointAddress,
+        abi: entryPoint07Abi,
+        eventName: 'UserOperationEvent',
+        args: { paymaster },
+        fromBlock,
+        toBlock,
+      }),
+    ]);
+
+    const blockTimestamps = new Map<bigint, number>();
+    const records: SponsorshipRecord[] = [];
+
+    for (const event of sponsoredEvents) {
+      const { userOpHash, payor, actualGasCost, policyID } = event.args;
+      const userOperationEvent = userOperationEvents.find(
+        entry => entry.args.userOpHash === userOpHash
+      );
+      if (!userOperationEvent?.args.sender) {
+        logger.warn('No EntryPoint event for sponsored operation', userOpHash);
+        continue;
+      }
+
+      let timestamp = blockTimestamps.get(event.blockNumber);
+      if (timestamp === undefined) {
+        const block = await client.getBlock({ blockNumber: event.blockNumber });
+        timestamp = Number(block.timestamp);
+        blockTimestamps.set(event.blockNumber, timestamp);
+      }
+
+      const sender = userOperationEvent.args.sender;
+      records.push({
+        userOpHash,
+        sender,
+        payor,
+        mode: isAddressEqual(payor, sender) ? 'user' : 'sponsor',
+        actualGasCost,
+        policyId: policyID,
+        success: userOperationEvent.args.success ?? false,
+        blockNumber: event.blockNumber,
+        transactionHash: event.transactionHash,
+        timestamp,
+      });
+    }
+
+    await store.addRecords(records, toBlock);
+  }
+
+  async function runSync() {
+    const paymaster = await getPaymasterAddress();
+    if (!paymaster) {
+      logger.warn('Sponsorship indexer has no paymaster address');
+      return;
+    }
+
+    const latestBlock = await client.getBlockNumber();
+    const storedCursor = await store.getCursor();
+    const firstBlock =
+      startBlock ??
+      (latestBlock > DEFAULT_LOOKBACK_BLOCKS ? latestBlock - DEFAULT_LOOKBACK_BLOCKS : 0n);
+    let cursor: bigint = storedCursor ?? (firstBlock > 0n ? firstBlock - 1n : 0n);
+
+    while (cursor < latestBlock) {
+      const fromBlock: bigint = cursor + 1n;
+      const toBlock: bigint =
+        fromBlock + pageSize - 1n < latestBlock ? fromBlock + pageSize - 1n : latestBlock;
+      await indexPage(paymaster, fromBlock, toBlock);
+      cursor = toBlock;
+    }
+  }
+
+  /**
+   * Index new blocks up to the chain head. Concurrent callers share one run. A failed run is
+   * logged and the next call retries from the last indexed page.
+   */
+  async function sync() {
+    syncing ??= runSync()
+      .catch(error => {
+        logger.error('Sponsorship indexer sync failed:', error);
+      })
+      .finally(() => {
+        syncing = null;
+      });
+    return syncing;
+  }
+
+  /**
+   * Sync, waiting at most QUERY_SYNC_BUDGET_MS, then list the records that match a filter, newest
+   * first
+   */
+  async function query(filter: SponsorshipFilter) {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    await Promise.race([
+      sync(),
+      new Promise<void>(resolve => {
+        timer = setTimeout(resolve, QUERY_SYNC_BUDGET_MS);
+      }),
+    ]);
+    clearTimeout(timer);
+
+    const records = await store.listRecords(filter);
+    return records.sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  return { sync, query, getCursor: () => store.getCursor() };
+}
+
+/**
+ * Totals per sender and per UTC day
+ */
+export function summarizeSponsorships(records: SponsorshipRecord[]) {
+  const bySender = new Map<Address, SponsorshipTotal>();
+  const byDay = new Map<string, SponsorshipTotal>();
+
+  const add = <K>(totals: Map<K, SponsorshipTotal>, key: K, record: SponsorshipRecord) => {
+    const total = totals.get(key) ?? { count: 0, actualGasCost: 0n };
+    total.count += 1;
+    total.actualGasCost += record.actualGasCost;
+    totals.set(key, total);
+  };
+
+  for (const record of records) {
+    add(bySender, record.sender.toLowerCase() as Address, record);
+    add(byDay, new Date(record.timestamp * 1000).toISOString().slice(0, 10), record);
+  }
+
+  return {
+    bySender: [...bySender.entries()]
+      .map(([sender, total]) => ({ sender, ...total }))
+      .sort((a, b) => (b.actualGasCost > a.actualGasCost ? 1 : -1)),
+    byDay: [...byDay.entries()]
+      .map(([day, total]) => ({ day, ...total }))
+      .sort((a, b) => b.day.localeCompare(a.day)),
+  };
+}
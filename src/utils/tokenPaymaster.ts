@@ -0,0 +1,134 @@
+import {
+  type Address,
+  type Hex,
+  decodeFunctionData,
+  encodeAbiParameters,
+  encodeFunctionData,
+  erc20Abi,
+  getAddress,
+  hexToBigInt,
+  hexToNumber,
+  isAddress,
+  isAddressEqual,
+  keccak256,
+  size,
+  slice,
+} from 'viem';
+import { type TransactionCall } from './calls';
+
+/**
+ * Exchange rates are token base units per 1 MON (10^18 wei)
+ */
+export const TOKEN_EXCHANGE_RATE_SCALE = 10n ** 18n;
+
+/**
+ * A signed price for paying a UserOperation's gas in an ERC-20. The paymaster may pull at most
+ * `maxTokenCost` of `token` from the sender in postOp.
+ */
+export type TokenQuote = {
+  token: Address;
+  exchangeRate: bigint;
+  maxTokenCost: bigint;
+};
+
+/**
+ * The ERC-7677 paymaster context that selects token payment instead of sponsorship
+ */
+export type TokenPaymasterContext = {
+  token: Address;
+};
+
+/**
+ * Token amount that pays for a gas cost in wei at an exchange rate, rounded up
+ */
+export function getTokenCost(gasCost: bigint, exchangeRate: bigint): bigint {
+  return (gasCost * exchangeRate + TOKEN_EXCHANGE_RATE_SCALE - 1n) / TOKEN_EXCHANGE_RATE_SCALE;
+}
+
+/**
+ * Hash the sponsor signs for a token quote: the paymaster's own hash of the operation and
+ * validity window, bound to the token, rate and maximum cost
+ */
+export function getTokenQuoteHash(paymasterHash: Hex, quote: TokenQuote): Hex {
+  return keccak256(
+    encodeAbiParameters(
+      [{ type: 'bytes32' }, { type: 'address' }, { type: 'uint256' }, { type: 'uint256' }],
+      [paymasterHash, quote.token, quote.exchangeRate, quote.maxTokenCost]
+    )
+  );
+}
+
+/**
+ * Read the signed quote back out of token mode paymasterData:
+ * mode (1) | token (20) | validUntil (6) | validAfter (6) | exchangeRate (32) | maxTokenCost (32) |
+ * signature. Returns null for any other mode.
+ */
+export function decodeTokenPaymasterData(paymasterData: Hex): TokenQuote | null {
+  if (size(paymasterData) < 97 || hexToNumber(slice(paymasterData, 0, 1)) !== 2) {
+    return null;
+  }
+
+  return {
+    token: getAddress(slice(paymasterData, 1, 21)),
+    exchangeRate: hexToBigInt(slice(paymasterData, 33, 65)),
+    maxTokenCost: hexToBigInt(slice(paymasterData, 65, 97)),
+  };
+}
+
+/**
+ * Read the token payment context of a paymaster request. Returns null when the request asks for
+ * sponsorship and throws when the token is malformed.
+ */
+export function parseTokenPaymasterContext(context: unknown): TokenPaymasterContext | null {
+  if (!context || typeof context !== 'object' || !('token' in context)) {
+    return null;
+  }
+
+  const token = (context as { token: unknown }).token;
+  if (typeof token !== 'string' || !isAddress(token)) {
+    throw new Error('context.token must be an ERC-20 address');
+  }
+  return { token };
+}
+
+/**
+ * The call that lets the token paymaster pull the gas cost from the account
+ */
+export function buildTokenApprovalCall(
+  token: Address,
+  paymaster: Address,
+  amount: bigint
+): TransactionCall {
+  return {
+    to: token,
+    value: 0n,
+    data: encodeFunctionData({ abi: erc20Abi, functionName: 'approve', args: [paymaster, amount] }),
+  };
+}
+
+/**
+ * The amount a batch approves the paymaster to spend of a token, or null when it has no such
+ * approval. The last approval wins, as it would on chain.
+ */
+export function findTokenApproval(
+  calls: { to: Address; data: Hex }[],
+  token: Address,
+  paymaster: Address
+): bigint | null {
+  let approved: bigint | null = null;
+
+  for (const call of calls) {
+    if (!isAddressEqual(call.to, token)) continue;
+
+    try {
+      const { functionName, args } = decodeFunctionData({ abi: erc20Abi, data: call.data });
+      if (functionName === 'approve' && isAddressEqual(args[0], paymaster)) {
+        approved = args[1];
+      }
+    } catch {
+      // Not an ERC-20 call we recognise - it cannot grant an allowance
+    }
+  }
+
+  return approved;
+}
@@ -0,0 +1,99 @@
+import { type Address, type PublicClient, getAddress, isAddress, isAddressEqual } from 'viem';
+import shmonadAbi from '../abis/shmonad.json';
+import { logger } from './logger';
+import { TOKEN_EXCHANGE_RATE_SCALE } from './tokenPaymaster';
+
+export type TokenQuoterConfig = {
+  // Fixed exchange rates, in token base units per 1 MON
+  fixedRates: Record<Address, bigint>;
+  // Added on top of every rate to cover price movement between quote and execution
+  markupPercent: number;
+};
+
+export const DEFAULT_TOKEN_MARKUP_PERCENT = 5;
+
+export type TokenQuoter = {
+  // Tokens the paymaster accepts, shMON first
+  getSupportedTokens(): Promise<Address[]>;
+  // Exchange rate including the markup, or null when the token is not accepted
+  getExchangeRate(token: Address): Promise<bigint | null>;
+};
+
+/**
+ * Load the token quoter settings: TOKEN_PAYMASTER_RATES is a comma-separated list of
+ * `<token>=<base units per MON>` entries and TOKEN_PAYMASTER_MARKUP_PERCENT the markup.
+ * Malformed entries are logged and skipped.
+ */
+export function loadTokenQuoterConfig(): TokenQuoterConfig {
+  const fixedRates: Record<Address, bigint> = {};
+
+  for (const entry of (process.env.TOKEN_PAYMASTER_RATES || '').split(',')) {
+    if (!entry.trim()) continue;
+
+    const [token, rate] = entry.split('=').map(part => part.trim());
+    try {
+      if (!isAddress(token) || BigInt(rate) <= 0n) throw new Error('invalid entry');
+      fixedRates[getAddress(token)] = BigInt(rate);
+    } catch {
+      logger.error('Ignoring malformed TOKEN_PAYMASTER_RATES entry:', entry);
+    }
+  }
+
+  const markupPercent = Number(
+    process.env.TOKEN_PAYMASTER_MARKUP_PERCENT ?? DEFAULT_TOKEN_MARKUP_PERCENT
+  );
+
+  return {
+    fixedRates,
+    markupPercent:
+      Number.isFinite(markupPercent) && markupPercent >= 0
+        ? markupPercent
+        : DEFAULT_TOKEN_MARKUP_PERCENT,
+  };
+}
+
+/**
+ * Quote gas prices in ERC-20s. shMON is priced from the shMonad vault's own share price, so it
+ * needs no configuration; other tokens need a fixed rate.
+ */
+export function createTokenQuoter({
+  client,
+  getShmonadAddress,
+  config,
+}: {
+  client: PublicClient;
+  getShmonadAddress: () => Promise<Address | null>;
+  config: TokenQuoterConfig;
+}): TokenQuoter {
+  const withMarkup = (rate: bigint) =>
+    (rate * BigInt(100 + Math.round(config.markupPercent))) / 100n;
+
+  return {
+    async getSupportedTokens() {
+      const shmonad = await getShmonadAddress();
+      const fixed = Object.keys(config.fixedRates) as Address[];
+      return shmonad ? [shmonad, ...fixed.filter(token => !isAddressEqual(token, shmonad))] : fixed;
+    },
+
+    async getExchangeRate(token) {
+      const fixedRate = config.fixedRates[getAddress(token)];
+      if (fixedRate !== undefined) {
+        return withMarkup(fixedRate);
+      }
+
+      const shmonad = await getShmonadAddress();
+      if (!shmonad || !isAddressEqual(token, shmonad)) {
+        return null;
+      }
+
+      // shMON shares minted for 1 MON of assets
+      const shares = (await client.readContract({
+        address: shmonad,
+        abi: shmonadAbi,
+        functionName: 'convertToShares',
+        args: [TOKEN_EXCHANGE_RATE_SCALE],
+      })) as bigint;
+      return withMarkup(shares);
+    },
+  };
+}
@@ -0,0 +1,301 @@
+import {
+  type Abi,
+  type Address,
+  type Hex,
+  type PublicClient,
+  type StateOverride,
+  BaseError,
+  decodeErrorResult,
+  decodeFunctionResult,
+  encodeFunctionData,
+  isAddressEqual,
+  parseAbi,
+  size,
+  slice,
+} from 'viem';
+import {
+  entryPoint06Abi,
+  entryPoint07Abi,
+  getUserOperationHash,
+  toPackedUserOperation,
+  type UserOperation,
+} from 'viem/account-abstraction';
+import paymasterAbi from '../abis/paymaster.json';
+import { type EntryPointVersion } from './config';
+import { getUserOperationMaxGasCost } from './sponsorPolicy';
+
+// Step of the operation that reverted
+export type SimulationStage = 'validation' | 'paymaster' | 'execution';
+
+/**
+ * Thrown when a simulated UserOperation reverts. `reason` is the decoded revert, `revertData` the
+ * raw bytes it was decoded from.
+ */
+export class UserOperationSimulationError extends Error {
+  constructor(
+    public readonly stage: SimulationStage,
+    public readonly reason: string,
+    public readonly revertData?: Hex
+  ) {
+    super(`UserOperation ${stage} reverted: ${reason}`);
+    this.name = 'UserOperationSimulationError';
+  }
+}
+
+const accountValidationAbi = parseAbi([
+  'function validateUserOp((address sender, uint256 nonce, bytes initCode, bytes callData, bytes32 accountGasLimits, uint256 preVerificationGas, bytes32 gasFees, bytes paymasterAndData, bytes signature) userOp, bytes32 userOpHash, uint256 missingAccountFunds) returns (uint256 validationData)',
+]);
+
+// Errors the revert data is decoded against - Error(string) and Panic(uint256) are always included
+const revertAbi = [
+  ...(paymasterAbi as Abi),
+  ...entryPoint06Abi,
+  ...entryPoint07Abi,
+  ...parseAbi(['error ExecutionFailed()']),
+].filter(item => item.type === 'error');
+
+// Delegation designator an EIP-7702 account's code is set to
+const DELEGATION_PREFIX = '0xef0100';
+
+/**
+ * Revert data of a failed call, or undefined when the call failed without reverting (e.g. the
+ * RPC was unreachable)
+ */
+function getRevertData(error: unknown): Hex | undefined {
+  if (!(error instanceof BaseError)) return undefined;
+  const cause = error.walk() as { data?: Hex | { data?: Hex } };
+  const data = typeof cause?.data === 'object' ? cause.data?.data : cause?.data;
+  if (data) return data;
+
+  // Reverts without data still say so in the message
+  return /revert/i.test(error.message) ? '0x' : undefined;
+}
+
+/**
+ * Human-readable revert reason. Nested reverts the EntryPoint wraps (FailedOpWithRevert) are
+ * decoded too.
+ */
+export function decodeRevertReason(data: Hex): string {
+  if (data === '0x') return 'reverted without a reason';
+
+  try {
+    const { errorName, args } = decodeErrorResult({ abi: revertAbi, data });
+    if (errorName === 'Error' && args) return String(args[0]);
+    if (errorName === 'FailedOp' && args) return String(args[1]);
+    if (errorName === 'FailedOpWithRevert' && args) {
+      return `${args[1]}: ${decodeRevertReason(args[2] as Hex)}`;
+    }
+    return `${errorName}(${(args ?? []).map(String).join(', ')})`;
+  } catch {
+    return size(data) >= 4
+      ? `unknown error ${slice(data, 0, 4)}${size(data) > 4 ? ` with data ${slice(data, 4)}` : ''}`
+      : `unknown revert ${data}`;
+  }
+}
+
+/**
+ * Run a call from the EntryPoint, turning a revert into a UserOperationSimulationError. Calls that
+ * fail without reverting are rethrown as they are.
+ */
+async function callFromEntryPoint(
+  client: PublicClient,
+  stage: SimulationStage,
+  request: { entryPointAddress: Address; to: Address; data: Hex; stateOverride?: StateOverride }
+): Promise<Hex> {
+  try {
+    const { data } = await client.call({
+      account: request.entryPointAddress,
+      to: request.to,
+      data: request.data,
+      stateOverride: request.stateOverride,
+    });
+    return data ?? '0x';
+  } catch (error) {
+    const revertData = getRevertData(error);
+    if (revertData === undefined) throw error;
+    throw new UserOperationSimulationError(stage, decodeRevertReason(revertData), revertData);
+  }
+}
+
+/**
+ * Simulate validation on EntryPoint v0.6 with its simulateValidation, which always reverts:
+ * ValidationResult when validation passes, FailedOp when it does not
+ */
+async function simulateValidationV06(
+  client: PublicClient,
+  entryPointAddress: Address,
+  userOperation: UserOperation<'0.6'>
+) {
+  try {
+    await client.call({
+      to: entryPointAddress,
+      data: encodeFunctionData({
+        abi: entryPoint06Abi,
+        functionName: 'simulateValidation',
+        args: [
+          {
+            ...userOperation,
+            initCode: userOperation.initCode ?? '0x',
+            paymasterAndData: userOperation.paymasterAndData ?? '0x',
+          },
+        ],
+      }),
+    });
+  } catch (error) {
+    const revertData = getRevertData(error);
+    if (revertData === undefined) throw error;
+
+    let errorName: string | undefined;
+    try {
+      ({ errorName } = decodeErrorResult({ abi: entryPoint06Abi, data: revertData }));
+    } catch {
+      // Not an EntryPoint error - reported below
+    }
+    if (errorName === 'ValidationResult' || errorName === 'ValidationResultWithAggregation') {
+      return;
+    }
+
+    const reason = decodeRevertReason(revertData);
+    // AA3x codes come from the paymaster, the others from the account or factory
+    throw new UserOperationSimulationError(
+      reason.startsWith('AA3') ? 'paymaster' : 'validation',
+      reason,
+      revertData
+    );
+  }
+}
+
+/**
+ * Simulate validation on EntryPoint v0.7 and v0.8. Their simulateValidation only exists in the
+ * off-chain EntryPointSimulations contract, so the same steps run as calls from the EntryPoint:
+ * the account's validateUserOp (once the account is deployed) and the paymaster's
+ * validatePaymasterUserOp. A failed account signature is expected, since the sender signs after
+ * the paymaster.
+ */
+async function simulateValidationV07(
+  client: PublicClient,
+  entryPointAddress: Address,
+  entryPointVersion: '0.7' | '0.8',
+  userOperation: UserOperation<'0.7'>,
+  stateOverride: StateOverride | undefined
+) {
+  const chainId = client.chain?.id;
+  if (!chainId) {
+    throw new Error('Simulation needs a client with a chain');
+  }
+
+  const { authorization, ...sentOperation } = userOperation;
+  const packedUserOperation = toPackedUserOperation(sentOperation);
+  const userOpHash = getUserOperationHash({
+    chainId,
+    entryPointAddress,
+    entryPointVersion,
+    userOperation,
+  });
+
+  if (!userOperation.factory || userOperation.factory === '0x7702') {
+    await callFromEntryPoint(client, 'validation', {
+      entryPointAddress,
+      to: userOperation.sender,
+      data: encodeFunctionData({
+        abi: accountValidationAbi,
+        functionName: 'validateUserOp',
+        args: [packedUserOperation, userOpHash, 0n],
+      }),
+      stateOverride,
+    });
+  }
+
+  if (!userOperation.paymaster) return;
+
+  const validationResult = await callFromEntryPoint(client, 'paymaster', {
+    entryPointAddress,
+    to: userOperation.paymaster,
+    data: encodeFunctionData({
+      abi: paymasterAbi,
+      functionName: 'validatePaymasterUserOp',
+      args: [packedUserOperation, userOpHash, getUserOperationMaxGasCost(userOperation)],
+    }),
+    stateOverride,
+  });
+  const [, validationData] = decodeFunctionResult({
+    abi: paymasterAbi,
+    functionName: 'validatePaymasterUserOp',
+    data: validationResult,
+  }) as [Hex, bigint];
+
+  // The low 160 bits are 1 when the paymaster rejects the sponsor signature
+  if ((validationData & ((1n << 160n) - 1n)) === 1n) {
+    throw new UserOperationSimulationError('paymaster', 'paymaster signature rejected');
+  }
+}
+
+/**
+ * Code overrides that make a pending EIP-7702 delegation visible to the simulation: the sender
+ * runs its delegate's code, as it will once the authorization is applied
+ */
+async function getDelegationOverride(
+  client: PublicClient,
+  userOperation: UserOperation
+): Promise<StateOverride | undefined> {
+  const authorization = userOperation.authorization;
+  if (!authorization) return undefined;
+
+  const senderCode = await client.getCode({ address: userOperation.sender });
+  if (
+    senderCode?.startsWith(DELEGATION_PREFIX) &&
+    isAddressEqual(`0x${senderCode.slice(DELEGATION_PREFIX.length)}`, authorization.address)
+  ) {
+    return undefined;
+  }
+
+  const delegateCode = await client.getCode({ address: authorization.address });
+  return delegateCode ? [{ address: userOperation.sender, code: delegateCode }] : undefined;
+}
+
+/**
+ * Simulate a sponsored UserOperation before it is signed for: validation, then the account's
+ * execution of its callData as an eth_call from the EntryPoint. Operations that deploy their
+ * account skip the account steps, since the account has no code yet.
+ *
+ * Throws UserOperationSimulationError when a step reverts. Other errors, such as an unreachable
+ * RPC, are rethrown as they are.
+ */
+export async function simulateUserOperation({
+  client,
+  entryPointAddress,
+  entryPointVersion,
+  userOperation,
+}: {
+  client: PublicClient;
+  entryPointAddress: Address;
+  entryPointVersion: EntryPointVersion;
+  userOperation: UserOperation;
+}) {
+  const stateOverride = await getDelegationOverride(client, userOperation);
+
+  if (entryPointVersion === '0.6') {
+    await simulateValidationV06(client, entryPointAddress, userOperation as UserOperation<'0.6'>);
+  } else {
+    await simulateValidationV07(
+      client,
+      entryPointAddress,
+      entryPointVersion,
+      userOperation as UserOperation<'0.7'>,
+      stateOverride
+    );
+  }
+
+  const deploysAccount =
+    'initCode' in userOperation
+      ? !!userOperation.initCode && userOperation.initCode !== '0x'
+      : !!userOperation.factory && userOperation.factory !== '0x7702';
+  if (deploysAccount) return;
+
+  await callFromEntryPoint(client, 'execution', {
+    entryPointAddress,
+    to: userOperation.sender,
+    data: userOperation.callData,
+    stateOverride,
+  });
+}
@@ -0,0 +1,152 @@
+import { type Hex, hexToBigInt, hexToNumber, size, slice } from 'viem';
+import { logger } from './logger';
+
+/**
+ * Unix seconds the paymaster signature is valid between. validAfter 0 means valid immediately.
+ */
+export type ValidityWindow = {
+  validAfter: bigint;
+  validUntil: bigint;
+};
+
+/**
+ * Server limits on the validity window of a paymaster signature, in seconds
+ */
+export type ValidityWindowConfig = {
+  // Window length when the request does not ask for one
+  defaultSeconds: number;
+  // Longest window a request may ask for
+  maxSeconds: number;
+  // Furthest in the future a request may start its window
+  maxDelaySeconds: number;
+};
+
+// Window the client asks for in the paymaster context, in unix seconds
+export type ValidityWindowContext = {
+  validAfter?: number;
+  validUntil?: number;
+};
+
+export const DEFAULT_VALIDITY_WINDOW_CONFIG: ValidityWindowConfig = {
+  defaultSeconds: 3600,
+  maxSeconds: 86400,
+  maxDelaySeconds: 86400,
+};
+
+/**
+ * Load the validity window limits: PAYMASTER_VALIDITY_SECONDS, PAYMASTER_MAX_VALIDITY_SECONDS and
+ * PAYMASTER_MAX_VALID_AFTER_SECONDS. Malformed values are logged and replaced by the defaults.
+ */
+export function loadValidityWindowConfig(): ValidityWindowConfig {
+  const read = (name: string, fallback: number) => {
+    const value = process.env[name];
+    if (value === undefined) return fallback;
+
+    const seconds = Number(value);
+    if (!Number.isInteger(seconds) || seconds < 0) {
+      logger.error(`Ignoring malformed ${name}:`, value);
+      return fallback;
+    }
+    return seconds;
+  };
+
+  const config = {
+    defaultSeconds: read(
+      'PAYMASTER_VALIDITY_SECONDS',
+      DEFAULT_VALIDITY_WINDOW_CONFIG.defaultSeconds
+    ),
+    maxSeconds: read('PAYMASTER_MAX_VALIDITY_SECONDS', DEFAULT_VALIDITY_WINDOW_CONFIG.maxSeconds),
+    maxDelaySeconds: read(
+      'PAYMASTER_MAX_VALID_AFTER_SECONDS',
+      DEFAULT_VALIDITY_WINDOW_CONFIG.maxDelaySeconds
+    ),
+  };
+  // The default window is a request like any other, so the maximum applies to it too
+  return { ...config, defaultSeconds: Math.min(config.defaultSeconds, config.maxSeconds) };
+}
+
+/**
+ * Read the validity window requested in a paymaster context. Returns an empty request when the
+ * context asks for none and throws when a bound is malformed.
+ */
+export function parseValidityWindowContext(context: unknown): ValidityWindowContext {
+  if (!context || typeof context !== 'object') {
+    return {};
+  }
+
+  const requested: ValidityWindowContext = {};
+  for (const name of ['validAfter', 'validUntil'] as const) {
+    if (!(name in context)) continue;
+
+    const value = Number((context as Record<string, unknown>)[name]);
+    if (!Number.isInteger(value) || value < 0) {
+      throw new Error(`context.${name} must be a unix timestamp in seconds`);
+    }
+    requested[name] = value;
+  }
+
+  if (
+    requested.validAfter !== undefined &&
+    requested.validUntil !== undefined &&
+    requested.validUntil <= requested.validAfter
+  ) {
+    throw new Error('context.validUntil must be after context.validAfter');
+  }
+  return requested;
+}
+
+/**
+ * The window to sign: the requested bounds clamped to the server limits, or the default window
+ * from now. Throws when the requested window has already ended.
+ */
+export function resolveValidityWindow(
+  requested: ValidityWindowContext,
+  config: ValidityWindowConfig,
+  now = Math.floor(Date.now() / 1000)
+): ValidityWindow {
+  const validAfter = Math.min(requested.validAfter ?? 0, now + config.maxDelaySeconds);
+  const start = Math.max(validAfter, now);
+
+  if (requested.validUntil !== undefined && requested.validUntil <= now) {
+    throw new Error('context.validUntil has already passed');
+  }
+  const validUntil = Math.min(
+    requested.validUntil ?? start + config.defaultSeconds,
+    start + config.maxSeconds
+  );
+
+  return { validAfter: BigInt(validAfter), validUntil: BigInt(validUntil) };
+}
+
+/**
+ * Read the validity window out of sponsor or token mode paymasterData, which both start with
+ * mode (1) | address (20) | validUntil (6) | validAfter (6). Returns null for any other mode.
+ */
+export function decodePaymasterValidity(paymasterData: Hex): ValidityWindow | null {
+  if (size(paymasterData) < 33) return null;
+
+  const mode = hexToNumber(slice(paymasterData, 0, 1));
+  if (mode !== 1 && mode !== 2) return null;
+
+  return {
+    validUntil: hexToBigInt(slice(paymasterData, 21, 27)),
+    validAfter: hexToBigInt(slice(paymasterData, 27, 33)),
+  };
+}
+
+/**
+ * The validity window of a prepared UserOperation's paymaster signature, from paymasterData on
+ * EntryPoint v0.7+ or from paymasterAndData (after the paymaster address) on v0.6
+ */
+export function getUserOperationValidity(userOperation: {
+  paymasterData?: Hex;
+  paymasterAndData?: Hex;
+}): ValidityWindow | null {
+  if (userOperation.paymasterData) {
+    return decodePaymasterValidity(userOperation.paymasterData);
+  }
+  if (userOperation.paymasterAndData && size(userOperation.paymasterAndData) > 20) {
+    return decodePaymasterValidity(slice(userOperation.paymasterAndData, 20));
+  }
+  return null;
+}